@@ -0,0 +1,156 @@
+import { ColorInput, IHslaColor, formatColor, parseColor, rgbaToHsla } from "./colorModel";
+
+
+/**
+ * Lightens a color by increasing its HSL lightness by `amount` percentage points (like Sass `lighten`).
+ *
+ * All color operations accept any {@link ColorInput}, keep the alpha channel
+ * and return hex (`"#rrggbb"`, or `"#rrggbbaa"` for translucent colors).
+ *
+ * @param {ColorInput} color - Color to lighten.
+ * @param {number} [amount=10] - Percentage points to add (`0`–`100`).
+ * @returns {string | null} Lightened color, or `null` for invalid colors.
+ *
+ * @example
+ * lightenColor("#0088fe", 20);   // "#65b7ff"
+ * lightenColor("black", 50);     // "#808080"
+ */
+export function lightenColor(color: ColorInput, amount: number = 10): string | null {
+  return _adjustHsla(color, hsla => ({ ...hsla, l: hsla.l + _amount(amount) }));
+}
+
+
+
+/**
+ * Darkens a color by decreasing its HSL lightness by `amount` percentage points (like Sass `darken`).
+ *
+ * @param {ColorInput} color - Color to darken.
+ * @param {number} [amount=10] - Percentage points to subtract (`0`–`100`).
+ * @returns {string | null} Darkened color, or `null` for invalid colors.
+ *
+ * @example
+ * darkenColor("#0088fe", 10);                // "#006dcb" (e.g. a hover state)
+ * darkenColor("rgba(0, 136, 254, 0.5)", 10); // "#006dcb80"
+ */
+export function darkenColor(color: ColorInput, amount: number = 10): string | null {
+  return _adjustHsla(color, hsla => ({ ...hsla, l: hsla.l - _amount(amount) }));
+}
+
+
+
+/**
+ * Makes a color more vivid by increasing its HSL saturation by `amount` percentage points.
+ *
+ * @param {ColorInput} color - Color to saturate.
+ * @param {number} [amount=10] - Percentage points to add (`0`–`100`).
+ * @returns {string | null} Saturated color, or `null` for invalid colors.
+ *
+ * @example
+ * saturateColor("#588da8", 20);  // "#3f95c1"
+ */
+export function saturateColor(color: ColorInput, amount: number = 10): string | null {
+  return _adjustHsla(color, hsla => ({ ...hsla, s: hsla.s + _amount(amount) }));
+}
+
+
+
+/**
+ * Makes a color duller by decreasing its HSL saturation by `amount` percentage points.
+ * `desaturateColor(color, 100)` gives the gray of the same HSL lightness.
+ *
+ * @param {ColorInput} color - Color to desaturate.
+ * @param {number} [amount=10] - Percentage points to subtract (`0`–`100`).
+ * @returns {string | null} Desaturated color, or `null` for invalid colors.
+ *
+ * @example
+ * desaturateColor("#ff0000", 50);   // "#bf4040"
+ * desaturateColor("#ff0000", 100);  // "#808080"
+ */
+export function desaturateColor(color: ColorInput, amount: number = 10): string | null {
+  return _adjustHsla(color, hsla => ({ ...hsla, s: hsla.s - _amount(amount) }));
+}
+
+
+
+/**
+ * Rotates the hue of a color around the color wheel.
+ *
+ * @param {ColorInput} color - Color to rotate.
+ * @param {number} degrees - Degrees to rotate; negative values rotate backwards, `180` gives the complement.
+ * @returns {string | null} Rotated color, or `null` for invalid colors.
+ *
+ * @example
+ * rotateHue("#ff0000", 120);   // "#00ff00"
+ * rotateHue("#0088fe", 180);   // "#fe7600"
+ */
+export function rotateHue(color: ColorInput, degrees: number): string | null {
+  return _adjustHsla(color, hsla => ({ ...hsla, h: hsla.h + (Number.isFinite(degrees) ? degrees : 0) }));
+}
+
+
+
+/**
+ * Sets the alpha (opacity) of a color, e.g. for overlays and subtle backgrounds.
+ *
+ * @param {ColorInput} color - Color to change.
+ * @param {number} alpha - Opacity between `0` and `1`; out-of-range values are clamped.
+ * @returns {string | null} Color with the new alpha, or `null` for invalid colors.
+ *
+ * @example
+ * setColorAlpha("#0088fe", 0.1);   // "#0088fe1a"
+ * setColorAlpha("#0088fe80", 1);   // "#0088fe"
+ */
+export function setColorAlpha(color: ColorInput, alpha: number): string | null {
+  const rgba = parseColor(color);
+
+  if (!rgba) {
+    return null;
+  }
+
+  return formatColor({ ...rgba, a: Number.isFinite(alpha) ? alpha : rgba.a }, "hex");
+}
+
+
+
+/**
+ * Mixes two colors channel by channel (like Sass `mix` and CSS `color-mix(in srgb, …)`).
+ *
+ * @param {ColorInput} color1 - First color.
+ * @param {ColorInput} color2 - Second color.
+ * @param {number} [weight=0.5] - Share of `color2`, from `0` (only `color1`) to `1` (only `color2`).
+ * @returns {string | null} Mixed color, or `null` if a color is invalid.
+ *
+ * @example
+ * mixColors("#ff0000", "#0000ff");          // "#800080"
+ * mixColors("#0088fe", "#ffffff", 0.9);     // "#e6f3ff" (a light background)
+ * mixColors("#0088fe", "transparent", 0.5); // "#0088fe80"
+ */
+export function mixColors(color1: ColorInput, color2: ColorInput, weight: number = 0.5): string | null {
+  const first = parseColor(color1);
+  const second = parseColor(color2);
+
+  if (!first || !second) {
+    return null;
+  }
+
+  const share = Number.isFinite(weight) ? Math.min(Math.max(weight, 0), 1) : 0.5;
+  const alpha = first.a * (1 - share) + second.a * share;
+
+  // Weight the channels by their alpha, so a transparent color does not pull the mix towards black
+  const mix = (a: number, b: number) =>
+    (alpha === 0 ? a * (1 - share) + b * share : (a * first.a * (1 - share) + b * second.a * share) / alpha);
+
+  return formatColor({ r: mix(first.r, second.r), g: mix(first.g, second.g), b: mix(first.b, second.b), a: alpha }, "hex");
+}
+
+
+function _adjustHsla(color: ColorInput, adjust: (hsla: IHslaColor) => IHslaColor): string | null {
+  const rgba = parseColor(color);
+
+  return rgba ? formatColor(adjust(rgbaToHsla(rgba)), "hex") : null;
+}
+
+
+function _amount(amount: number): number {
+  return Number.isFinite(amount) ? amount : 10;
+}
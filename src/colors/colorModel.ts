@@ -0,0 +1,410 @@
+import { NAMED_COLORS } from "./namedColors";
+
+
+/**
+ * A color in the sRGB space.
+ *
+ * @property r - Red, integer `0`–`255`.
+ * @property g - Green, integer `0`–`255`.
+ * @property b - Blue, integer `0`–`255`.
+ * @property a - Alpha (opacity), `0`–`1`.
+ */
+export interface IRgbaColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+
+/**
+ * A color as hue, saturation and lightness.
+ *
+ * @property h - Hue in degrees, `0` to below `360`.
+ * @property s - Saturation in percent, `0`–`100`.
+ * @property l - Lightness in percent, `0`–`100`.
+ * @property a - Alpha (opacity), `0`–`1`.
+ */
+export interface IHslaColor {
+  h: number;
+  s: number;
+  l: number;
+  a: number;
+}
+
+
+/**
+ * CSS syntax produced by {@link formatColor}:
+ * - `"hex"` → `"#ae951e"`, or `"#ae951e80"` when the color is translucent
+ * - `"rgb"` → `"rgb(174, 149, 30)"` / `"rgba(174, 149, 30, 0.5)"`
+ * - `"hsl"` → `"hsl(49.6, 70.6%, 40%)"` / `"hsla(49.6, 70.6%, 40%, 0.5)"`
+ * - `"name"` → `"red"`, `"transparent"`; only for colors that have a CSS name
+ */
+export type ColorFormat = "hex" | "rgb" | "hsl" | "name";
+
+
+/**
+ * Any color accepted by the color helpers: a CSS color string or a color object.
+ */
+export type ColorInput = string | IRgbaColor | IHslaColor;
+
+
+// The short forms need a `#`, so words like "add" or "face" are never read as colors
+const _hexRegex = /^#[\da-f]{3,4}$|^#?(?:[\da-f]{6}|[\da-f]{8})$/i;
+const _functionRegex = /^(rgba?|hsla?)\(\s*(.*?)\s*\)$/i;
+const _componentRegex = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/i;
+
+// Degrees per hue unit (CSS Values 4)
+const _angleUnits: Record<string, number> = { "": 1, deg: 1, grad: 0.9, rad: 180 / Math.PI, turn: 360 };
+
+// First name per hex wins ("aqua" over "cyan", "gray" over "grey")
+const _colorNames = new Map<string, string>();
+
+Object.entries(NAMED_COLORS).forEach(([name, hex]) => {
+  if (!_colorNames.has(hex)) {
+    _colorNames.set(hex, name);
+  }
+});
+
+
+
+/**
+ * Parses any common CSS color into an {@link IRgbaColor}:
+ * - hex with 3, 4, 6 or 8 digits (`"#fff"`, `"#ff000080"`, `"#ae951e"`); 6 and 8 digits also without `#` (`"ae951e"`)
+ * - `rgb()` / `rgba()` in the comma and the space syntax, with numbers or percentages (`"rgb(255 0 0 / 50%)"`)
+ * - `hsl()` / `hsla()` with `deg`, `grad`, `rad` or `turn` hues (`"hsl(120deg 100% 25%)"`)
+ * - the 148 CSS named colors and `"transparent"` (case-insensitive)
+ *
+ * Out-of-range components are clamped like browsers do (`"rgb(300, 0, 0)"` → red).
+ * Color objects are accepted too and come back normalized (HSLA converted, channels clamped and rounded).
+ *
+ * @param {ColorInput} value - CSS color or color object.
+ * @returns {IRgbaColor | null} Parsed color, or `null` if the value is not a supported color.
+ *
+ * @example
+ * parseColor("#fff");                       // { r: 255, g: 255, b: 255, a: 1 }
+ * parseColor("#ff000080");                  // { r: 255, g: 0, b: 0, a: 0.502 }
+ * parseColor("rgba(174, 149, 30, 0.5)");    // { r: 174, g: 149, b: 30, a: 0.5 }
+ * parseColor("hsl(0.5turn 100% 50%)");      // { r: 0, g: 255, b: 255, a: 1 }
+ * parseColor("RebeccaPurple");              // { r: 102, g: 51, b: 153, a: 1 }
+ * parseColor({ h: 120, s: 100, l: 25, a: 1 }); // { r: 0, g: 128, b: 0, a: 1 }
+ * parseColor("not-a-color");                // null
+ */
+export function parseColor(value: ColorInput): IRgbaColor | null {
+  if (value && typeof value === "object") {
+    if ("h" in value) {
+      return hslaToRgba(value);
+    }
+
+    return "r" in value ? _sanitizeRgba(value) : null;
+  }
+
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const text = value.trim().toLowerCase();
+
+  if (text === "transparent") {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, text)) {
+    return _parseHex(NAMED_COLORS[text]);
+  }
+
+  if (_hexRegex.test(text)) {
+    return _parseHex(text.replace("#", ""));
+  }
+
+  const match = _functionRegex.exec(text);
+
+  if (!match) {
+    return null;
+  }
+
+  const args = _splitArguments(match[2]);
+
+  if (!args) {
+    return null;
+  }
+
+  return match[1].startsWith("rgb") ? _parseRgbArguments(args) : _parseHslArguments(args);
+}
+
+
+
+/**
+ * Converts an RGBA color to HSLA. Components are not rounded, so converting back is lossless.
+ *
+ * @param {IRgbaColor} color - Color to convert.
+ * @returns {IHslaColor} The same color as hue, saturation and lightness.
+ *
+ * @example
+ * rgbaToHsla({ r: 255, g: 0, b: 0, a: 1 });  // { h: 0, s: 100, l: 50, a: 1 }
+ */
+export function rgbaToHsla(color: IRgbaColor): IHslaColor {
+  const { r, g, b, a } = _sanitizeRgba(color);
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const delta = max - min;
+  const l = (max + min) / 2;
+
+  if (delta === 0) {
+    return { h: 0, s: 0, l: l * 100, a };
+  }
+
+  const s = delta / (1 - Math.abs(2 * l - 1));
+  let h: number;
+
+  if (max === red) {
+    h = ((green - blue) / delta) % 6;
+  }
+  else if (max === green) {
+    h = (blue - red) / delta + 2;
+  }
+  else {
+    h = (red - green) / delta + 4;
+  }
+
+  return { h: _normalizeHue(h * 60), s: Math.min(s, 1) * 100, l: l * 100, a };
+}
+
+
+
+/**
+ * Converts an HSLA color to RGBA (channels rounded to integers).
+ *
+ * @param {IHslaColor} color - Color to convert. Out-of-range values are clamped, hues wrap around.
+ * @returns {IRgbaColor} The same color in sRGB.
+ *
+ * @example
+ * hslaToRgba({ h: 120, s: 100, l: 25, a: 1 });  // { r: 0, g: 128, b: 0, a: 1 }
+ */
+export function hslaToRgba(color: IHslaColor): IRgbaColor {
+  const { h, s, l, a } = _sanitizeHsla(color);
+  const chroma = (s / 100) * Math.min(l / 100, 1 - l / 100);
+
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round((l / 100 - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255);
+  };
+
+  return { r: channel(0), g: channel(8), b: channel(4), a };
+}
+
+
+
+/**
+ * Serializes a color to a CSS string in the requested syntax.
+ *
+ * Accepts a parsed color object or any string {@link parseColor} understands, so it also converts between syntaxes.
+ * Alpha is kept: translucent colors become 8-digit hex, `rgba()` or `hsla()`.
+ *
+ * @param {ColorInput} color - Color to serialize.
+ * @param {ColorFormat} [format="hex"] - Target syntax.
+ * @returns {string | null} CSS color string, or `null` for invalid colors (and for `"name"` when the color has no name).
+ *
+ * @example
+ * formatColor("#fff");                                // "#ffffff"
+ * formatColor("rgb(255 0 0 / 50%)", "hex");           // "#ff000080"
+ * formatColor("#ae951e", "rgb");                      // "rgb(174, 149, 30)"
+ * formatColor({ r: 255, g: 0, b: 0, a: 1 }, "hsl");   // "hsl(0, 100%, 50%)"
+ * formatColor({ h: 120, s: 100, l: 25, a: 1 }, "name"); // "green"
+ */
+export function formatColor(color: ColorInput, format: ColorFormat = "hex"): string | null {
+  const rgba = parseColor(color);
+  const hsla = color && typeof color === "object" && "h" in color ? color : null;
+
+  if (!rgba) {
+    return null;
+  }
+
+  switch (format) {
+    case "rgb":
+      return rgba.a < 1
+        ? `rgba(${rgba.r}, ${rgba.g}, ${rgba.b}, ${_round(rgba.a, 3)})`
+        : `rgb(${rgba.r}, ${rgba.g}, ${rgba.b})`;
+
+    case "hsl": {
+      // Format an HSLA input directly, so its components are not rounded through RGB
+      const { h, s, l } = hsla ? _sanitizeHsla(hsla) : rgbaToHsla(rgba);
+      const components = `${_round(h, 1)}, ${_round(s, 1)}%, ${_round(l, 1)}%`;
+
+      return rgba.a < 1 ? `hsla(${components}, ${_round(rgba.a, 3)})` : `hsl(${components})`;
+    }
+
+    case "name":
+      if (rgba.a === 0 && rgba.r === 0 && rgba.g === 0 && rgba.b === 0) {
+        return "transparent";
+      }
+
+      return rgba.a === 1 ? _colorNames.get(_toHex(rgba).slice(1, 7)) ?? null : null;
+
+    default:
+      return _toHex(rgba);
+  }
+}
+
+
+function _parseHex(hex: string): IRgbaColor {
+  // "f00" / "f008" → "ff0000" / "ff000088"
+  const full = hex.length <= 4 ? hex.split("").map(c => c + c).join("") : hex;
+  const channels = full.match(/../g)!.map(pair => parseInt(pair, 16));
+
+  return {
+    r: channels[0],
+    g: channels[1],
+    b: channels[2],
+    a: channels.length > 3 ? _round(channels[3] / 255, 3) : 1
+  };
+}
+
+
+function _toHex(color: IRgbaColor): string {
+  const channels = [color.r, color.g, color.b];
+
+  if (color.a < 1) {
+    channels.push(Math.round(color.a * 255));
+  }
+
+  return `#${channels.map(c => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+
+/**
+ * Splits the arguments of `rgb()` / `hsl()` in either syntax:
+ * `"255, 0, 0, 0.5"` (comma) or `"255 0 0 / 0.5"` (space). Returns `null` for malformed lists.
+ */
+function _splitArguments(text: string): string[] | null {
+  if (text.includes(",")) {
+    const args = text.split(",").map(arg => arg.trim());
+    return (args.length === 3 || args.length === 4) && args.every(Boolean) ? args : null;
+  }
+
+  const [channels, alpha, ...rest] = text.split("/").map(part => part.trim());
+  const args = channels.split(/\s+/).filter(Boolean);
+
+  if (rest.length || args.length !== 3 || alpha === "") {
+    return null;
+  }
+
+  return alpha === undefined ? args : [...args, alpha];
+}
+
+
+function _parseRgbArguments(args: string[]): IRgbaColor | null {
+  const channels = args.slice(0, 3).map(arg => _parseComponent(arg, 255));
+  const a = _parseAlpha(args[3]);
+
+  if (channels.some(c => c === null) || a === null) {
+    return null;
+  }
+
+  const [r, g, b] = channels.map(c => Math.round(_clamp(c!, 0, 255)));
+
+  return { r, g, b, a };
+}
+
+
+function _parseHslArguments(args: string[]): IRgbaColor | null {
+  const h = _parseHue(args[0]);
+  const s = _parseComponent(args[1], 100);
+  const l = _parseComponent(args[2], 100);
+  const a = _parseAlpha(args[3]);
+
+  if (h === null || s === null || l === null || a === null) {
+    return null;
+  }
+
+  return hslaToRgba({ h, s, l, a });
+}
+
+
+/**
+ * Parses a number or percentage; `100%` equals `max`. `"none"` counts as `0` (CSS Color 4).
+ */
+function _parseComponent(text: string, max: number): number | null {
+  if (text === "none") {
+    return 0;
+  }
+
+  const match = _componentRegex.exec(text);
+
+  if (!match || (match[2] && match[2] !== "%")) {
+    return null;
+  }
+
+  const value = parseFloat(match[1]);
+
+  return match[2] === "%" ? (value / 100) * max : value;
+}
+
+
+function _parseHue(text: string): number | null {
+  if (text === "none") {
+    return 0;
+  }
+
+  const match = _componentRegex.exec(text);
+
+  if (!match || match[2] === "%") {
+    return null;
+  }
+
+  return parseFloat(match[1]) * _angleUnits[(match[2] ?? "").toLowerCase()];
+}
+
+
+function _parseAlpha(text?: string): number | null {
+  if (text === undefined) {
+    return 1;
+  }
+
+  const alpha = _parseComponent(text, 1);
+
+  return alpha === null ? null : _clamp(alpha, 0, 1);
+}
+
+
+function _sanitizeRgba(color: IRgbaColor): IRgbaColor {
+  return {
+    r: Math.round(_clamp(_finite(color?.r, 0), 0, 255)),
+    g: Math.round(_clamp(_finite(color?.g, 0), 0, 255)),
+    b: Math.round(_clamp(_finite(color?.b, 0), 0, 255)),
+    a: _clamp(_finite(color?.a, 1), 0, 1)
+  };
+}
+
+
+function _sanitizeHsla(color: IHslaColor): IHslaColor {
+  return {
+    h: _normalizeHue(_finite(color?.h, 0)),
+    s: _clamp(_finite(color?.s, 0), 0, 100),
+    l: _clamp(_finite(color?.l, 0), 0, 100),
+    a: _clamp(_finite(color?.a, 1), 0, 1)
+  };
+}
+
+
+function _normalizeHue(hue: number): number {
+  return ((hue % 360) + 360) % 360;
+}
+
+
+function _finite(value: unknown, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? value : fallback;
+}
+
+
+function _clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+
+function _round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,111 @@
+import { ColorInput, formatColor, parseColor } from "./colorModel";
+import { oklchToRgba, rgbaToOklch } from "./oklch";
+
+
+/**
+ * Steps of a tint/shade scale, from the lightest tint (`50`) to the darkest shade (`900`).
+ */
+export type ColorScaleStep = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900;
+
+
+/**
+ * A tint/shade scale: a hex color for every {@link ColorScaleStep}; `500` is the base color
+ * (moved in lightness for very light or dark bases, see {@link generateColorScale}).
+ */
+export type ColorScale = Record<ColorScaleStep, string>;
+
+
+/**
+ * Options for {@link generateColorScale}.
+ *
+ * @property lightest - OKLCH lightness of step `50`, `0`–`1`. Default: `0.97`.
+ * @property darkest - OKLCH lightness of step `900`, `0`–`1`. Default: `0.35`.
+ *
+ * Both are moved outwards when the base is too close to them to keep the steps apart.
+ */
+export interface IColorScaleOptions {
+  lightest?: number;
+  darkest?: number;
+}
+
+
+const _tintSteps: ColorScaleStep[] = [50, 100, 200, 300, 400];
+const _shadeSteps: ColorScaleStep[] = [600, 700, 800, 900];
+
+// Share of the base chroma kept at the ends of the scale: pale tints and deep shades look muddy when fully saturated
+const _LIGHTEST_CHROMA = 0.15;
+const _DARKEST_CHROMA = 0.7;
+
+// Lightness range of the scale and the smallest lightness difference between neighbouring steps.
+// Near black sRGB has fewer distinct levels, so shades need larger steps than tints.
+const _MAX_LIGHTNESS = 0.99;
+const _MIN_LIGHTNESS = 0.1;
+const _MIN_TINT_STEP = 0.01;
+const _MIN_SHADE_STEP = 0.02;
+
+
+
+/**
+ * Generates a 50–900 tint/shade scale from one base color, e.g. for hover, border and background variants.
+ *
+ * The base color is step `500`. Tints and shades are spaced evenly in OKLCH lightness,
+ * so the steps look evenly spaced to the eye (unlike HSL, where yellow and blue steps differ a lot).
+ * The hue is kept; chroma is reduced where a color would fall outside the sRGB gamut.
+ *
+ * The 10 steps are always distinct and ordered from light to dark. A base too light or too dark
+ * to leave room for them (e.g. white, black or a very pale pastel) is moved in lightness for step `500`.
+ *
+ * @param {ColorInput} base - Base color. Alpha is ignored.
+ * @param {IColorScaleOptions} [options] - Lightness of the lightest and darkest steps.
+ * @returns {ColorScale | null} The scale as hex colors, or `null` for invalid colors.
+ *
+ * @example
+ * const blue = generateColorScale("#0088fe");
+ * blue[500];  // "#0088fe"
+ * blue[50];   // very light blue, e.g. a selected row
+ * blue[600];  // slightly darker, e.g. a hover state
+ * blue[900];  // deep blue, e.g. text on blue[50]
+ */
+export function generateColorScale(base: ColorInput, options: IColorScaleOptions = {}): ColorScale | null {
+  const rgba = parseColor(base);
+
+  if (!rgba) {
+    return null;
+  }
+
+  const original = rgbaToOklch(rgba);
+
+  // Leave room for the tints above and the shades below the base
+  const tintRoom = _tintSteps.length * _MIN_TINT_STEP;
+  const shadeRoom = _shadeSteps.length * _MIN_SHADE_STEP;
+  const l = Math.min(Math.max(original.l, _MIN_LIGHTNESS + shadeRoom), _MAX_LIGHTNESS - tintRoom);
+  const oklch = { ...original, l };
+
+  const lightest = Math.min(Math.max(_lightness(options.lightest, 0.97), l + tintRoom), _MAX_LIGHTNESS);
+  const darkest = Math.max(Math.min(_lightness(options.darkest, 0.35), l - shadeRoom), _MIN_LIGHTNESS);
+
+  const scale = { 500: formatColor(l === original.l ? { ...rgba, a: 1 } : oklchToRgba(oklch), "hex")! } as ColorScale;
+
+  _tintSteps.forEach((step, index) => {
+    // 0 at step 50, 1 at the base
+    const t = index / _tintSteps.length;
+    const chroma = oklch.c * (_LIGHTEST_CHROMA + (1 - _LIGHTEST_CHROMA) * t);
+
+    scale[step] = formatColor(oklchToRgba({ l: lightest + (oklch.l - lightest) * t, c: chroma, h: oklch.h }), "hex")!;
+  });
+
+  _shadeSteps.forEach((step, index) => {
+    // 0 at the base, 1 at step 900
+    const t = (index + 1) / _shadeSteps.length;
+    const chroma = oklch.c * (1 - (1 - _DARKEST_CHROMA) * t);
+
+    scale[step] = formatColor(oklchToRgba({ l: oklch.l + (darkest - oklch.l) * t, c: chroma, h: oklch.h }), "hex")!;
+  });
+
+  return scale;
+}
+
+
+function _lightness(value: number | undefined, fallback: number): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(Math.max(value, 0), 1) : fallback;
+}
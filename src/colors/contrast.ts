@@ -0,0 +1,255 @@
+import { ColorInput, IRgbaColor, formatColor, hslaToRgba, parseColor, rgbaToHsla } from "./colorModel";
+
+
+/**
+ * WCAG 2.x conformance level:
+ * - `"AA"` → contrast of at least 4.5:1 (3:1 for large text)
+ * - `"AAA"` → contrast of at least 7:1 (4.5:1 for large text)
+ */
+export type WcagLevel = "AA" | "AAA";
+
+
+/**
+ * Options of the contrast helpers.
+ *
+ * @property level - Required conformance level. Default: `"AA"`.
+ * @property largeText - Text of at least 18pt (24px), or 14pt (~18.7px) bold, which needs less contrast. Default: `false`.
+ */
+export interface IContrastOptions {
+  level?: WcagLevel;
+  largeText?: boolean;
+}
+
+
+// Minimum contrast ratios of WCAG 2.x (success criteria 1.4.3 and 1.4.6)
+const _minimumRatios: Record<WcagLevel, { normal: number; large: number; }> = {
+  AA: { normal: 4.5, large: 3 },
+  AAA: { normal: 7, large: 4.5 }
+};
+
+// Lightness steps of the binary search in ensureContrast (100 / 2^12 < 0.03%)
+const _SEARCH_STEPS = 12;
+
+
+
+/**
+ * Returns the WCAG 2.x relative luminance of a color: `0` for black, `1` for white.
+ *
+ * @param {ColorInput} color - Any CSS color {@link parseColor} understands, or a color object. Alpha is ignored.
+ * @returns {number | null} Relative luminance between `0` and `1`, or `null` for invalid colors.
+ *
+ * @example
+ * getRelativeLuminance("#ffffff");  // 1
+ * getRelativeLuminance("#ffff00");  // 0.9278
+ * getRelativeLuminance("navy");     // 0.0156
+ */
+export function getRelativeLuminance(color: ColorInput): number | null {
+  const rgba = parseColor(color);
+
+  return rgba ? _luminance(rgba) : null;
+}
+
+
+
+/**
+ * Returns the WCAG 2.x contrast ratio between two colors, from `1` (same luminance) to `21` (black on white).
+ *
+ * A translucent foreground is first blended over the background; the background is treated as opaque.
+ * The ratio is not rounded — WCAG thresholds are strict (`4.499` does not meet AA).
+ *
+ * @param {ColorInput} foreground - Text color.
+ * @param {ColorInput} background - Background color.
+ * @returns {number | null} Contrast ratio, or `null` if a color is invalid.
+ *
+ * @example
+ * getContrastRatio("#000", "#fff");      // 21
+ * getContrastRatio("#ffffff", "#ffff00"); // 1.0738
+ * getContrastRatio("#777", "#fff");      // 4.4781 (just below AA)
+ */
+export function getContrastRatio(foreground: ColorInput, background: ColorInput): number | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+
+  return fg && bg ? _contrast(_blend(fg, bg), bg) : null;
+}
+
+
+
+/**
+ * Checks whether a text color is readable on a background according to WCAG 2.x.
+ *
+ * @param {ColorInput} foreground - Text color.
+ * @param {ColorInput} background - Background color.
+ * @param {IContrastOptions} [options] - Level and text size. Default: AA, normal text (4.5:1).
+ * @returns {boolean} `true` if the contrast is sufficient; `false` otherwise or for invalid colors.
+ *
+ * @example
+ * meetsContrast("#000", "#faf0af");                         // true
+ * meetsContrast("#fff", "#faf0af");                         // false
+ * meetsContrast("#fff", "#0088fe", { largeText: true });    // true (3.5:1)
+ */
+export function meetsContrast(foreground: ColorInput, background: ColorInput, options: IContrastOptions = {}): boolean {
+  const ratio = getContrastRatio(foreground, background);
+
+  return ratio !== null && ratio >= _minimumRatio(options);
+}
+
+
+
+/**
+ * Picks the most readable text color for a background: the candidate with the highest contrast ratio.
+ *
+ * @param {ColorInput} background - Background color.
+ * @param {string[]} [candidates] - Text colors to choose from. Default: `["#000000", "#ffffff"]`.
+ * @returns {string | null} The best candidate (as passed in), or `null` if the background or every candidate is invalid.
+ *
+ * @example
+ * getReadableTextColor("#ffff00");                          // "#000000"
+ * getReadableTextColor("#851372");                          // "#ffffff"
+ * getReadableTextColor("#0088fe", ["#1a1a1a", "#f5f5f5"]);  // "#1a1a1a"
+ */
+export function getReadableTextColor(background: ColorInput, candidates: string[] = ["#000000", "#ffffff"]): string | null {
+  const bg = parseColor(background);
+
+  if (!bg || !Array.isArray(candidates)) {
+    return null;
+  }
+
+  let best: string | null = null;
+  let bestRatio = 0;
+
+  candidates.forEach(candidate => {
+    const fg = parseColor(candidate);
+    const ratio = fg ? _contrast(_blend(fg, bg), bg) : 0;
+
+    if (ratio > bestRatio) {
+      best = candidate;
+      bestRatio = ratio;
+    }
+  });
+
+  return best;
+}
+
+
+
+/**
+ * Adjusts a text color until it meets the required WCAG contrast against a background,
+ * keeping its hue and saturation and changing its lightness as little as possible.
+ *
+ * Colors that already meet the target are returned unchanged (as hex). When the target cannot be reached
+ * (e.g. AAA on a mid-gray background), the darkest or lightest variant with the higher contrast is returned —
+ * check the result with {@link meetsContrast} if that matters.
+ *
+ * @param {ColorInput} foreground - Text color to adjust. A translucent color is first blended over the background.
+ * @param {ColorInput} background - Background color.
+ * @param {IContrastOptions} [options] - Level and text size. Default: AA, normal text (4.5:1).
+ * @returns {string | null} Opaque hex color, or `null` if a color is invalid.
+ *
+ * @example
+ * ensureContrast("#0088fe", "#ffffff");                    // "#0076dd" (darkened to 4.5:1)
+ * ensureContrast("#ffd700", "#ffffff", { largeText: true }); // "#af9300" (darker gold, 3:1)
+ * ensureContrast("#000000", "#ffffff");                    // "#000000"
+ */
+export function ensureContrast(foreground: ColorInput, background: ColorInput, options: IContrastOptions = {}): string | null {
+  const fg = parseColor(foreground);
+  const bg = parseColor(background);
+
+  if (!fg || !bg) {
+    return null;
+  }
+
+  const target = _minimumRatio(options);
+  const start = _blend(fg, bg);
+
+  if (_contrast(start, bg) >= target) {
+    return formatColor(start, "hex");
+  }
+
+  const hsla = rgbaToHsla(start);
+  const bgLuminance = _luminance(bg);
+  const withLightness = (l: number) => hslaToRgba({ ...hsla, l, a: 1 });
+
+  // On each side of the background, contrast grows monotonically towards black / white
+  const isDarkEnough = (l: number) => {
+    const rgba = withLightness(l);
+    return _luminance(rgba) <= bgLuminance && _contrast(rgba, bg) >= target;
+  };
+
+  const isLightEnough = (l: number) => {
+    const rgba = withLightness(l);
+    return _luminance(rgba) >= bgLuminance && _contrast(rgba, bg) >= target;
+  };
+
+  const candidates: number[] = [];
+
+  if (isDarkEnough(0)) {
+    candidates.push(_searchLightness(0, hsla.l, isDarkEnough));
+  }
+
+  if (isLightEnough(100)) {
+    candidates.push(_searchLightness(100, hsla.l, isLightEnough));
+  }
+
+  if (!candidates.length) {
+    const darkest = withLightness(0);
+    const lightest = withLightness(100);
+
+    return formatColor(_contrast(darkest, bg) >= _contrast(lightest, bg) ? darkest : lightest, "hex");
+  }
+
+  // The smallest change in lightness wins
+  const lightness = candidates.reduce((best, l) => (Math.abs(l - hsla.l) < Math.abs(best - hsla.l) ? l : best));
+
+  return formatColor(withLightness(lightness), "hex");
+}
+
+
+/**
+ * Binary search between a lightness that passes (`passing`) and one that fails (`failing`),
+ * returning the passing lightness closest to `failing`.
+ */
+function _searchLightness(passing: number, failing: number, passes: (l: number) => boolean): number {
+  for (let i = 0; i < _SEARCH_STEPS; i++) {
+    const middle = (passing + failing) / 2;
+
+    if (passes(middle)) {
+      passing = middle;
+    }
+    else {
+      failing = middle;
+    }
+  }
+
+  return passing;
+}
+
+
+function _minimumRatio(options: IContrastOptions): number {
+  const ratios = _minimumRatios[options?.level === "AAA" ? "AAA" : "AA"];
+  return options?.largeText ? ratios.large : ratios.normal;
+}
+
+
+function _blend(foreground: IRgbaColor, background: IRgbaColor): IRgbaColor {
+  const alpha = foreground.a;
+  const mix = (fg: number, bg: number) => Math.round(fg * alpha + bg * (1 - alpha));
+
+  return { r: mix(foreground.r, background.r), g: mix(foreground.g, background.g), b: mix(foreground.b, background.b), a: 1 };
+}
+
+
+function _luminance(color: IRgbaColor): number {
+  const [r, g, b] = [color.r, color.g, color.b].map(channel => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+
+function _contrast(a: IRgbaColor, b: IRgbaColor): number {
+  const [lighter, darker] = [_luminance(a), _luminance(b)].sort((x, y) => y - x);
+  return (lighter + 0.05) / (darker + 0.05);
+}
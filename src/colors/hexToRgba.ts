@@ -1,23 +1,30 @@
-const _hexRegex = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i;
+import { parseColor } from "./colorModel";
 
 
 /**
  * Convert a HEX color code to an RGBA color string.
  *
- * @param {string} hex    HEX color code (e.g. "#ae951e" or "ae951e").
- * @param {number} [alpha=1]  Alpha value between 0 and 1 (default is 1).
+ * Accepts 3, 4, 6 and 8-digit hex codes; 6 and 8 digits also without `#`
+ * (and any other color {@link parseColor} understands, e.g. `"rgb(…)"`, `"hsl(…)"` or `"teal"`).
+ *
+ * @param {string} hex    HEX color code (e.g. "#ae951e", "ae951e", "#fff" or "#ff000080").
+ * @param {number} [alpha]  Alpha value between 0 and 1. Default: the color's own alpha (1 for opaque colors);
+ *   values outside 0–1 fall back to 1.
  * @returns {string | null}   RGBA string (e.g. "rgba(174, 149, 30, 1)") or null if invalid.
  */
-export function hexToRgba(hex: string, alpha: number = 1): string | null {
-  const result = _hexRegex.exec(hex);
+export function hexToRgba(hex: string, alpha?: number): string | null {
+  const color = parseColor(hex);
 
-  if (!result) {
+  if (!color) {
     return null;
   }
 
-  if (alpha < 0 || alpha > 1) {
+  if (alpha === undefined) {
+    alpha = color.a;
+  }
+  else if (!(alpha >= 0 && alpha <= 1)) {
     alpha = 1;
   }
 
-  return `rgba(${parseInt(result[1], 16)}, ${parseInt(result[2], 16)}, ${parseInt(result[3], 16)}, ${alpha})`;
-}
\ No newline at end of file
+  return `rgba(${color.r}, ${color.g}, ${color.b}, ${alpha})`;
+}
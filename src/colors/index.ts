@@ -1,2 +1,6 @@
 export * from "./hexToRgba";
-export * from "./pastelColors";
\ No newline at end of file
+export * from "./pastelColors";
+export * from "./colorModel";
+export * from "./contrast";
+export * from "./colorManipulation";
+export * from "./colorScale";
\ No newline at end of file
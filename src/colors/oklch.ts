@@ -0,0 +1,110 @@
+/**
+ * Internal conversions between sRGB and OKLCH, a perceptual color space:
+ * equal steps in lightness (`l`) look equally large to the eye, unlike HSL.
+ *
+ * Matrices from Björn Ottosson, "A perceptual color space for image processing" (2020).
+ */
+
+import { IRgbaColor } from "./colorModel";
+
+
+/**
+ * A color in OKLCH: lightness `0`–`1`, chroma `0`–~`0.4` and hue in degrees.
+ */
+export interface IOklchColor {
+  l: number;
+  c: number;
+  h: number;
+}
+
+
+// Tolerance for floating point noise at the edge of the sRGB gamut
+const _GAMUT_EPSILON = 1e-6;
+
+// Chroma steps of the binary search in oklchToRgba
+const _GAMUT_SEARCH_STEPS = 20;
+
+
+
+/**
+ * Converts an sRGB color to OKLCH. Alpha is ignored.
+ */
+export function rgbaToOklch(color: IRgbaColor): IOklchColor {
+  const [r, g, b] = [color.r, color.g, color.b].map(channel => _toLinear(channel / 255));
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  const bb = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+
+  const hue = (Math.atan2(bb, a) * 180) / Math.PI;
+
+  return { l: lightness, c: Math.sqrt(a * a + bb * bb), h: (hue + 360) % 360 };
+}
+
+
+
+/**
+ * Converts an OKLCH color to sRGB. Colors outside the sRGB gamut are brought inside
+ * by reducing their chroma (keeping lightness and hue), as CSS Color 4 recommends.
+ */
+export function oklchToRgba(color: IOklchColor, alpha: number = 1): IRgbaColor {
+  const l = Math.min(Math.max(color.l, 0), 1);
+  let linear = _oklchToLinear(l, color.c, color.h);
+
+  if (!_isInGamut(linear)) {
+    let low = 0;
+    let high = Math.max(color.c, 0);
+
+    for (let i = 0; i < _GAMUT_SEARCH_STEPS; i++) {
+      const middle = (low + high) / 2;
+
+      if (_isInGamut(_oklchToLinear(l, middle, color.h))) {
+        low = middle;
+      }
+      else {
+        high = middle;
+      }
+    }
+
+    linear = _oklchToLinear(l, low, color.h);
+  }
+
+  const [r, g, b] = linear.map(channel => Math.round(Math.min(Math.max(_fromLinear(channel), 0), 1) * 255));
+
+  return { r, g, b, a: alpha };
+}
+
+
+function _oklchToLinear(lightness: number, chroma: number, hue: number): number[] {
+  const a = chroma * Math.cos((hue * Math.PI) / 180);
+  const b = chroma * Math.sin((hue * Math.PI) / 180);
+
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (lightness - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  ];
+}
+
+
+function _isInGamut(linear: number[]): boolean {
+  return linear.every(channel => channel >= -_GAMUT_EPSILON && channel <= 1 + _GAMUT_EPSILON);
+}
+
+
+function _toLinear(value: number): number {
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+}
+
+
+function _fromLinear(value: number): number {
+  return value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+}
@@ -1,4 +1,5 @@
-import { getCryptoRandomInt, isNumeric } from "../numbers";
+import { IRandomSource, cryptoRandom, isNumeric } from "../numbers";
+import { IContrastOptions, ensureContrast, getReadableTextColor } from "./contrast";
 
 
 const pastelColors = [
@@ -86,10 +87,35 @@ const pastelColorsLength = pastelColors.length;
 export type C180PastelColorsLength = typeof pastelColorsLength;
 
 
+/**
+ * A palette color with a text color that is readable on it.
+ *
+ * @property color - Background color (hex).
+ * @property textColor - Text color meeting the requested WCAG contrast on `color` (hex).
+ */
+export interface IPastelColorPair {
+  color: string;
+  textColor: string;
+}
+
+
+/**
+ * Options for {@link getRandomPastelColorPairs}.
+ *
+ * @property textColors - Preferred text colors; the most readable one is used. Default: `["#000000", "#ffffff"]`.
+ *   If it does not reach the required contrast, it is darkened or lightened until it does.
+ */
+export interface IPastelColorPairOptions extends IContrastOptions {
+  textColors?: string[];
+}
+
+
 /**
  * Returns one or more **unique random pastel colors**.
  *
  * @param count - Number of colors to return (1 ... up to {@link C180PastelColorsLength}).
+ * @param random - Source of randomness. Default: `cryptoRandom`.
+ *   Pass `createSeededRandom(seed)` to get the same colors on every run (demo data, screenshots, tests).
  * @returns {string[]} Array of unique pastel color hex codes.
  *
  * @example
@@ -98,8 +124,11 @@ export type C180PastelColorsLength = typeof pastelColorsLength;
  *
  * getRandomPastelColors(3);
  * // => ["#ffa8bb", "#1CB54E", "#95b8d1"]
+ *
+ * getRandomPastelColors(3, createSeededRandom("sales-chart"));
+ * // => the same 3 colors every time
  */
-export function getRandomPastelColors(count: number): string[] {
+export function getRandomPastelColors(count: number, random: IRandomSource = cryptoRandom): string[] {
   if (!isNumeric(count)) {
     count = pastelColorsLength;
   }
@@ -107,15 +136,35 @@ export function getRandomPastelColors(count: number): string[] {
     count = Math.min(Math.max(Math.floor(count), 1), pastelColorsLength);
   }
 
-  const result: string[] = [];
-  const used = new Set<number>();
+  const source = random && typeof random.sample === "function" ? random : cryptoRandom;
 
-  while (result.length < count) {
-    const index = getCryptoRandomInt(0, pastelColorsLength - 1);
-    if (!used.has(index)) {
-      used.add(index);
-      result.push(pastelColors[index]);
-    }
-  }
-  return result;
+  return source.sample(pastelColors, count);
+}
+
+
+/**
+ * Returns unique random pastel colors, each paired with an accessible text color for labels on top of it.
+ *
+ * Picks the same colors as {@link getRandomPastelColors} for the same random source
+ * (e.g. the same seed), so both can be used interchangeably.
+ * With `level: "AAA"`, some saturated mid-tones (e.g. `"#ff0000"`) cannot reach 7:1 with any text color;
+ * they get the most contrasting one.
+ *
+ * @param count - Number of colors to return (1 ... up to {@link C180PastelColorsLength}).
+ * @param random - Source of randomness. Default: `cryptoRandom`.
+ * @param options - WCAG level, text size and preferred text colors. Default: AA for normal text, black or white.
+ * @returns {IPastelColorPair[]} Array of background / text color pairs.
+ *
+ * @example
+ * getRandomPastelColorPairs(2);
+ * // => [{ color: "#ffff00", textColor: "#000000" }, { color: "#851372", textColor: "#ffffff" }]
+ *
+ * getRandomPastelColorPairs(3, createSeededRandom("legend"), { level: "AAA", textColors: ["#1a1a1a", "#ffffff"] });
+ */
+export function getRandomPastelColorPairs(count: number, random: IRandomSource = cryptoRandom, options: IPastelColorPairOptions = {}): IPastelColorPair[] {
+  return getRandomPastelColors(count, random).map(color => {
+    const preferred = getReadableTextColor(color, options.textColors) ?? "#000000";
+
+    return { color, textColor: ensureContrast(preferred, color, options) ?? preferred };
+  });
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+/**
+ * Internal big.js helpers shared by the number formatters.
+ */
+
+import Big, { BigSource } from "big.js";
+
+
+
+/**
+ * Creates a big.js number without throwing.
+ *
+ * @returns `null` for `null`, `undefined` and values big.js can't parse (`""`, `"abc"`, `NaN`, `Infinity`).
+ */
+export function toBig(value?: BigSource | null): Big | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  try {
+    return Big(value);
+  }
+  catch {
+    return null;
+  }
+}
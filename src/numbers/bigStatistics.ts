@@ -0,0 +1,209 @@
+import Big, { BigSource } from "big.js";
+import { toBig } from "./bigNumber";
+
+
+/**
+ * Values accepted by the statistics helpers. Like SQL aggregates, `null` and `undefined` entries are ignored.
+ */
+export type BigStatisticsInput = readonly (BigSource | null | undefined)[];
+
+
+
+/**
+ * Exact sum of the values (big.js), e.g. for totals that must match the backend's decimal math.
+ *
+ * `null` / `undefined` entries are ignored; an empty list sums to `0`.
+ *
+ * @param {BigStatisticsInput} values - Values to add up.
+ * @returns {Big | null} The sum, or `null` if an entry is not a number.
+ *
+ * @example
+ * bigSum([0.1, 0.2])?.toString();             // "0.3" (not 0.30000000000000004)
+ * bigSum(["19.99", "5.01", null])?.toString(); // "25"
+ * bigSum([1, "abc"]);                          // null
+ */
+export function bigSum(values: BigStatisticsInput): Big | null {
+  const nums = _collect(values);
+
+  return nums ? nums.reduce((sum, num) => sum.plus(num), Big(0)) : null;
+}
+
+
+
+/**
+ * Arithmetic mean of the values.
+ *
+ * The sum is exact; the division keeps `Big.DP` fraction digits (20 by default) — round the result for display.
+ *
+ * @param {BigStatisticsInput} values - Values to average.
+ * @returns {Big | null} The mean, or `null` for an empty list or if an entry is not a number.
+ *
+ * @example
+ * bigMean([1, 2, 4])?.toString();             // "2.33333333333333333333"
+ * bigMean(["10.5", "20.5"])?.toString();      // "15.5"
+ */
+export function bigMean(values: BigStatisticsInput): Big | null {
+  const nums = _collect(values);
+
+  if (!nums || !nums.length) {
+    return null;
+  }
+
+  return nums.reduce((sum, num) => sum.plus(num), Big(0)).div(nums.length);
+}
+
+
+
+/**
+ * Median of the values: the middle value, or the mean of the two middle values for an even count.
+ *
+ * @param {BigStatisticsInput} values - Values in any order.
+ * @returns {Big | null} The median, or `null` for an empty list or if an entry is not a number.
+ *
+ * @example
+ * bigMedian([3, 1, 2])?.toString();      // "2"
+ * bigMedian([1, 2, 3, 10])?.toString();  // "2.5"
+ */
+export function bigMedian(values: BigStatisticsInput): Big | null {
+  return bigPercentile(values, 50);
+}
+
+
+
+/**
+ * Percentile of the values with linear interpolation between the closest ranks
+ * (the same method as Excel `PERCENTILE.INC`, PostgreSQL `percentile_cont` and NumPy's default).
+ *
+ * @param {BigStatisticsInput} values - Values in any order.
+ * @param {number} percentile - Percentile between `0` and `100` (e.g. `95` for p95).
+ * @returns {Big | null} The percentile, or `null` for an empty list, an invalid percentile or if an entry is not a number.
+ *
+ * @example
+ * bigPercentile([1, 2, 3, 4, 5], 95)?.toString();  // "4.8"
+ * bigPercentile([15, 20, 35, 40, 50], 40)?.toString(); // "29"
+ * bigPercentile([1, 2, 3], 0)?.toString();         // "1" (minimum)
+ */
+export function bigPercentile(values: BigStatisticsInput, percentile: number): Big | null {
+  const nums = _collect(values);
+
+  if (!nums || !nums.length || typeof percentile !== "number" || !(percentile >= 0 && percentile <= 100)) {
+    return null;
+  }
+
+  const sorted = nums.sort((a, b) => a.cmp(b));
+  const rank = Big(percentile).times(sorted.length - 1).div(100);
+  const lower = rank.round(0, Big.roundDown).toNumber();
+  const fraction = rank.minus(lower);
+
+  if (fraction.eq(0)) {
+    return sorted[lower];
+  }
+
+  return sorted[lower].plus(sorted[lower + 1].minus(sorted[lower]).times(fraction));
+}
+
+
+
+/**
+ * Smallest of the values.
+ *
+ * @param {BigStatisticsInput} values - Values to compare.
+ * @returns {Big | null} The minimum, or `null` for an empty list or if an entry is not a number.
+ *
+ * @example
+ * bigMin(["10.01", "10.001", 11])?.toString(); // "10.001"
+ */
+export function bigMin(values: BigStatisticsInput): Big | null {
+  const nums = _collect(values);
+
+  return nums && nums.length ? nums.reduce((min, num) => (num.lt(min) ? num : min)) : null;
+}
+
+
+
+/**
+ * Largest of the values.
+ *
+ * @param {BigStatisticsInput} values - Values to compare.
+ * @returns {Big | null} The maximum, or `null` for an empty list or if an entry is not a number.
+ *
+ * @example
+ * bigMax(["9007199254740993", 1])?.toString(); // "9007199254740993"
+ */
+export function bigMax(values: BigStatisticsInput): Big | null {
+  const nums = _collect(values);
+
+  return nums && nums.length ? nums.reduce((max, num) => (num.gt(max) ? num : max)) : null;
+}
+
+
+
+/**
+ * Weighted average `Σ(value × weight) / Σ(weight)`, e.g. an average price weighted by quantity.
+ *
+ * `values` and `weights` are paired by index; pairs with a `null` / `undefined` value or weight are ignored.
+ * The division keeps `Big.DP` fraction digits (20 by default).
+ *
+ * @param {BigStatisticsInput} values - Values to average.
+ * @param {BigStatisticsInput} weights - Weight of each value.
+ * @returns {Big | null} The weighted average, or `null` if the lists differ in length, an entry is not a number
+ *   or the weights add up to `0`.
+ *
+ * @example
+ * bigWeightedAverage(["10.00", "12.50"], [3, 1])?.toString(); // "10.625"
+ * bigWeightedAverage([1, 2], [0, 0]);                         // null
+ */
+export function bigWeightedAverage(values: BigStatisticsInput, weights: BigStatisticsInput): Big | null {
+  if (!Array.isArray(values) || !Array.isArray(weights) || values.length !== weights.length) {
+    return null;
+  }
+
+  const pairs = values.map((value, index) => [value, weights[index]]).filter(([value, weight]) => !_isMissing(value) && !_isMissing(weight));
+  const nums = _collect(pairs.map(([value]) => value));
+  const nonNullWeights = _collect(pairs.map(([, weight]) => weight));
+
+  if (!nums || !nonNullWeights) {
+    return null;
+  }
+
+  const totalWeight = nonNullWeights.reduce((sum, weight) => sum.plus(weight), Big(0));
+
+  if (totalWeight.eq(0)) {
+    return null;
+  }
+
+  return nums.reduce((sum, num, index) => sum.plus(num.times(nonNullWeights[index])), Big(0)).div(totalWeight);
+}
+
+
+function _isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+
+/**
+ * Converts the non-missing entries to `Big`. Returns `null` for a non-array or if an entry is not a number.
+ */
+function _collect(values: BigStatisticsInput): Big[] | null {
+  if (!Array.isArray(values)) {
+    return null;
+  }
+
+  const nums: Big[] = [];
+
+  for (const value of values) {
+    if (_isMissing(value)) {
+      continue;
+    }
+
+    const num = toBig(value as BigSource);
+
+    if (!num) {
+      return null;
+    }
+
+    nums.push(num);
+  }
+
+  return nums;
+}
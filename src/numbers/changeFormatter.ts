@@ -0,0 +1,177 @@
+import Big, { BigSource } from "big.js";
+import { toBig } from "./bigNumber";
+import { FormatWithThousandSeparator } from "./numberFormatters";
+import { replaceNumericParts } from "./numberLocale";
+import { RoundingMode, roundDecimal } from "./rounding";
+
+
+export type ChangeDirection = "up" | "down" | "flat";
+
+
+/**
+ * When to show the sign of the change:
+ * - `"exceptZero"` → `"+12.4%"`, `"−3.0%"`, `"0%"` (default)
+ * - `"always"` → like `"exceptZero"`, but zero is shown as `"+0%"`
+ * - `"negative"` → only negative values are signed: `"12.4%"`, `"−3.0%"`
+ */
+export type ChangeSignDisplay = "exceptZero" | "always" | "negative";
+
+
+/**
+ * Options for {@link formatChange}.
+ *
+ * @property fractionDigits - Fraction digits of the percentage. Default: `1`.
+ * @property deltaFractionDigits - Fraction digits of the absolute delta. Default: `2`.
+ * @property locale - Locale for separators and the percent sign (see `FormatWithThousandSeparator`).
+ * @property roundingMode - How to round the percentage and the delta. Default: `"halfUp"`.
+ * @property signDisplay - When to show the sign. Default: `"exceptZero"`.
+ * @property show - What `formatted` contains: the percentage (default) or the absolute delta.
+ * @property zeroBaseline - What to show when the previous value is `0` and the current one is not:
+ *   `"infinity"` → `"+∞"` (default), `"delta"` → the absolute delta, `"na"` → `"N/A"`.
+ * @property returnEmptyInsteadOfNA - Returns `""` instead of `"N/A"` in the formatted strings.
+ */
+export interface IFormatChangeOptions {
+  fractionDigits?: number;
+  deltaFractionDigits?: number;
+  locale?: string;
+  roundingMode?: RoundingMode;
+  signDisplay?: ChangeSignDisplay;
+  show?: "percentage" | "delta";
+  zeroBaseline?: "infinity" | "delta" | "na";
+  returnEmptyInsteadOfNA?: boolean;
+}
+
+
+/**
+ * Result of {@link formatChange}.
+ *
+ * @property delta - `current - previous`, exact.
+ * @property percentage - Change in percent of the previous value (`12.4` for +12.4%).
+ *   `null` when the previous value is `0` (except for `0 → 0`, which is `0`).
+ * @property direction - `"up"` / `"down"`, or `"flat"` when the shown value rounds to zero.
+ * @property formatted - The string to display, according to `show`.
+ * @property formattedDelta - Signed absolute delta, e.g. `"+1,234.50"`.
+ * @property formattedPercentage - Signed percentage, e.g. `"+12.4%"`, `"+∞"`.
+ */
+export interface IChangeResult {
+  delta: Big | null;
+  percentage: Big | null;
+  direction: ChangeDirection;
+  formatted: string;
+  formattedDelta: string;
+  formattedPercentage: string;
+}
+
+
+// Typographic minus, as used in KPI widgets ("−3.0%")
+const _MINUS = "−";
+
+
+
+/**
+ * Describes the change between two values for KPI widgets: absolute delta, percentage,
+ * direction and a ready-to-display string.
+ *
+ * Percentages are relative to the absolute previous value, so the sign always follows the delta
+ * (`-200 → -100` is `+50%`). Numbers share the formatting rules of `FormatWithThousandSeparator`
+ * (big.js rounding, locale separators); values that round to zero are shown as `"0%"`.
+ *
+ * @param {BigSource | null} [previous] - Baseline value.
+ * @param {BigSource | null} [current] - Current value.
+ * @param {IFormatChangeOptions} [options] - Precision, locale, sign display and zero-baseline behaviour.
+ * @returns {IChangeResult} Structured result. Invalid values give `"N/A"` strings and a `"flat"` direction.
+ *
+ * @example
+ * formatChange(1000, 1124).formatted;       // "+12.4%"
+ * formatChange(1000, 970).formatted;        // "−3.0%"
+ * formatChange(1000, 1000).formatted;       // "0%"
+ * formatChange(0, 50).formatted;            // "+∞"
+ * formatChange(0, 50, { zeroBaseline: "delta" }).formatted; // "+50.00"
+ * formatChange("1000", "1124", { locale: "de-DE", show: "delta" }).formatted; // "+124,00"
+ */
+export function formatChange(previous?: BigSource | null, current?: BigSource | null, options: IFormatChangeOptions = {}): IChangeResult {
+  const { locale, roundingMode, signDisplay = "exceptZero", show = "percentage", zeroBaseline = "infinity", returnEmptyInsteadOfNA } = options;
+  const fractionDigits = _digits(options.fractionDigits, 1);
+  const deltaFractionDigits = _digits(options.deltaFractionDigits, 2);
+  const na = returnEmptyInsteadOfNA ? "" : "N/A";
+
+  const prev = toBig(previous);
+  const curr = toBig(current);
+
+  if (!prev || !curr) {
+    return { delta: null, percentage: null, direction: "flat", formatted: na, formattedDelta: na, formattedPercentage: na };
+  }
+
+  const delta = curr.minus(prev);
+  const percentage = prev.eq(0) ? (delta.eq(0) ? Big(0) : null) : delta.div(prev.abs()).times(100);
+
+  const formattedDelta = _formatSigned(delta, deltaFractionDigits, roundingMode, signDisplay, locale);
+  let formattedPercentage: string;
+
+  if (percentage) {
+    formattedPercentage = _formatSigned(percentage, fractionDigits, roundingMode, signDisplay, locale, true);
+  }
+  else if (zeroBaseline === "delta") {
+    formattedPercentage = formattedDelta;
+  }
+  else if (zeroBaseline === "na") {
+    formattedPercentage = na;
+  }
+  else {
+    formattedPercentage = `${_sign(delta.s, signDisplay)}∞`;
+  }
+
+  // Direction follows what the user sees: a change that rounds to "0%" is flat
+  const shown = show === "delta" || !percentage
+    ? roundDecimal(delta, deltaFractionDigits, roundingMode)
+    : roundDecimal(percentage, fractionDigits, roundingMode);
+  const direction: ChangeDirection = shown.eq(0) ? "flat" : (delta.gt(0) ? "up" : "down");
+
+  return {
+    delta,
+    percentage,
+    direction,
+    formatted: show === "delta" ? formattedDelta : formattedPercentage,
+    formattedDelta,
+    formattedPercentage
+  };
+}
+
+
+function _digits(value: number | undefined, fallback: number): number {
+  return Number.isInteger(value) ? Math.min(Math.max(value!, 0), 20) : fallback;
+}
+
+
+function _sign(sign: number, signDisplay: ChangeSignDisplay, isZero: boolean = false): string {
+  if (isZero) {
+    return signDisplay === "always" ? "+" : "";
+  }
+
+  if (sign < 0) {
+    return _MINUS;
+  }
+
+  return signDisplay === "negative" ? "" : "+";
+}
+
+
+function _formatSigned(value: Big, fractionDigits: number, roundingMode: RoundingMode | undefined, signDisplay: ChangeSignDisplay, locale?: string, isPercent: boolean = false): string {
+  const rounded = roundDecimal(value, fractionDigits, roundingMode);
+  const isZero = rounded.eq(0);
+  const magnitude = FormatWithThousandSeparator(rounded.abs(), { fractionDigits: isZero ? 0 : fractionDigits, locale });
+  const number = isPercent ? _withPercentSign(magnitude, locale) : magnitude;
+
+  return `${_sign(value.s, signDisplay, isZero)}${number}`;
+}
+
+
+// Places the locale's percent sign: "12.4%" (en), "12,4 %" (de), "%12,4" (tr)
+function _withPercentSign(magnitude: string, locale?: string): string {
+  try {
+    return replaceNumericParts(new Intl.NumberFormat(locale ?? "en", { style: "percent" }).formatToParts(1), magnitude);
+  }
+  catch {
+    return `${magnitude}%`;
+  }
+}
@@ -0,0 +1,136 @@
+import { RandomTokenEncoding, cryptoRandom } from "./randomSource";
+
+
+
+/**
+ * Returns a cryptographically secure random bigint between `min` and `max` (inclusive),
+ * for ranges beyond `Number.MAX_SAFE_INTEGER`.
+ *
+ * Never throws: non-bigint values are converted when they are integers, otherwise `0n` / `1n` are used.
+ * If `min > max`, values are swapped.
+ *
+ * @param min - Minimum value (inclusive). Default: `0n`.
+ * @param max - Maximum value (inclusive). Default: `1n`.
+ *
+ * @example
+ * getCryptoRandomBigInt(0n, 2n ** 128n - 1n); // any 128-bit value
+ */
+export function getCryptoRandomBigInt(min?: bigint | number, max?: bigint | number): bigint {
+  return cryptoRandom.bigInt(min, max);
+}
+
+
+
+/**
+ * Returns a cryptographically secure uniform float in `[min, max)`, with 53 bits of randomness.
+ *
+ * Invalid bounds fall back to `0` and `1`; if `min > max`, values are swapped.
+ *
+ * @example
+ * getCryptoRandomFloat();        // 0 <= x < 1
+ * getCryptoRandomFloat(-5, 5);   // -5 <= x < 5
+ */
+export function getCryptoRandomFloat(min?: number, max?: number): number {
+  return cryptoRandom.float(min, max);
+}
+
+
+
+/**
+ * Returns a shuffled copy of the array (unbiased Fisher–Yates with crypto randomness).
+ * The input is not modified. Non-array input returns `[]`.
+ *
+ * @example
+ * cryptoShuffle([1, 2, 3, 4]); // e.g. [3, 1, 4, 2]
+ */
+export function cryptoShuffle<T>(items: readonly T[]): T[] {
+  return cryptoRandom.shuffle(items);
+}
+
+
+
+/**
+ * Picks `count` distinct items (sampling without replacement), in random order.
+ * If `count` exceeds the number of items, all items are returned shuffled.
+ *
+ * @example
+ * cryptoSample(["a", "b", "c", "d"], 2); // e.g. ["d", "a"]
+ */
+export function cryptoSample<T>(items: readonly T[], count: number): T[] {
+  return cryptoRandom.sample(items, count);
+}
+
+
+
+/**
+ * Picks one item with probability proportional to its weight.
+ *
+ * Weights can be an array parallel to `items` or a function of the item.
+ * Negative, zero and invalid weights are never picked.
+ *
+ * @returns The picked item, or `undefined` when there is nothing to pick.
+ *
+ * @example
+ * cryptoPickWeighted(["common", "rare"], [95, 5]);           // "common" 95% of the time
+ * cryptoPickWeighted(prizes, prize => prize.stock);
+ */
+export function cryptoPickWeighted<T>(items: readonly T[], weights: readonly number[] | ((item: T, index: number) => number)): T | undefined {
+  return cryptoRandom.pickWeighted(items, weights);
+}
+
+
+
+/**
+ * Returns a random ID string, e.g. for client-side keys, invite codes or file names.
+ *
+ * The default alphabet is URL-safe (`A-Z a-z 0-9 _ -`), so 21 characters carry ~126 bits of randomness.
+ * Every character of a custom alphabet is equally likely (no modulo bias); duplicates are removed.
+ *
+ * @param length - Number of characters (1–1024). Default: `21`.
+ * @param alphabet - Characters to use (at least 2 distinct). Default: URL-safe alphabet.
+ *
+ * @example
+ * getCryptoRandomId();                       // "V1StGXR8_Z5jdHi6B-myT"
+ * getCryptoRandomId(6, "0123456789");        // "048291"
+ * getCryptoRandomId(8, "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"); // "K7MZQ2PA" (no look-alike characters)
+ */
+export function getCryptoRandomId(length?: number, alphabet?: string): string {
+  return cryptoRandom.id(length, alphabet);
+}
+
+
+
+/**
+ * Returns a random token of `bytes` random bytes, e.g. for CSRF tokens or nonces.
+ *
+ * @param bytes - Number of random bytes (1–1024). Default: `32` (256 bits).
+ * @param encoding - Output encoding. Default: `"hex"`.
+ *
+ * @example
+ * getCryptoRandomToken();                 // 64 hex characters
+ * getCryptoRandomToken(16, "base64url");  // 22 characters
+ */
+export function getCryptoRandomToken(bytes?: number, encoding?: RandomTokenEncoding): string {
+  return cryptoRandom.token(bytes, encoding);
+}
+
+
+
+/**
+ * Returns a random UUID (RFC 9562).
+ *
+ * - Version 4 → fully random.
+ * - Version 7 → starts with the UNIX timestamp in milliseconds, so IDs sort by creation time
+ *   (good for database primary keys).
+ *
+ * @param version - `4` (default) or `7`.
+ * @param timestamp - Timestamp embedded in a v7 UUID. Default: `Date.now()`.
+ *
+ * @example
+ * getCryptoUUID();     // "3b241101-e2bb-4255-8caf-4136c566a962"
+ * getCryptoUUID(7);    // "01921bd4-5c4e-7cc3-9ba7-6a3f5e0d9b41"
+ */
+export function getCryptoUUID(version?: 4 | 7, timestamp?: number): string {
+  return cryptoRandom.uuid(version, timestamp);
+}
+
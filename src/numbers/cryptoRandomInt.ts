@@ -1,3 +1,6 @@
+import { cryptoRandom } from "./randomSource";
+
+
 /**
  * Returns a cryptographically secure random integer
  * between `min` and `max` (inclusive).
@@ -13,8 +16,10 @@
  * - Non-integer values are rounded
  * - Values outside safe integer bounds are clamped
  *
- * Range is limited to `<= 2^32` due to `Uint32Array` constraints.
- * If exceeded, it falls back to a safe `[0, 1]` range.
+ * The whole safe integer range is supported without bias
+ * (e.g. `getCryptoRandomInt(Number.MIN_SAFE_INTEGER, Number.MAX_SAFE_INTEGER)`).
+ * For even larger ranges use `getCryptoRandomBigInt`.
+ * For reproducible values use `createSeededRandom(seed).int(min, max)`.
  *
  * @param min - Minimum integer value (inclusive). Default: 0
  * @param max - Maximum integer value (inclusive). Default: 1
@@ -29,38 +34,5 @@
  * getCryptoRandomInt(7)   // 1..7
  */
 export function getCryptoRandomInt(min?: number, max?: number): number {
-
-  // sanitize inputs
-  let safeMin = (typeof min === "number" && Number.isFinite(min)) ? Math.round(min) : 0;
-  let safeMax = (typeof max === "number" && Number.isFinite(max)) ? Math.round(max) : 1;
-
-  // clamp to safe integer bounds
-  safeMin = Math.max(Number.MIN_SAFE_INTEGER, Math.min(Number.MAX_SAFE_INTEGER, safeMin));
-  safeMax = Math.max(Number.MIN_SAFE_INTEGER, Math.min(Number.MAX_SAFE_INTEGER, safeMax));
-
-  // swap if inverted
-  if (safeMin > safeMax) {
-    [safeMin, safeMax] = [safeMax, safeMin];
-  }
-
-  let range = safeMax - safeMin + 1;
-
-  // hard limit for Uint32
-  if (range <= 0 || range > 2 ** 32) {
-    safeMin = 0;
-    safeMax = 1;
-    range = 2;
-  }
-
-  const maxUint32 = 0xffffffff;
-  const limit = maxUint32 - (maxUint32 % range);
-  const array = new Uint32Array(1);
-
-  while (true) {
-    crypto.getRandomValues(array);
-
-    if (array[0] < limit) {
-      return safeMin + (array[0] % range);
-    }
-  }
+  return cryptoRandom.int(min, max);
 }
\ No newline at end of file
@@ -1,3 +1,10 @@
 export * from "./numberFormatters";
 export * from "./isNumeric";
-export * from "./cryptoRandomInt";
\ No newline at end of file
+export * from "./cryptoRandomInt";
+export * from "./money";
+export * from "./changeFormatter";
+export * from "./cryptoRandom";
+export * from "./randomSource";
+export * from "./unitFormatters";
+export * from "./rounding";
+export * from "./bigStatistics";
\ No newline at end of file
@@ -1,4 +1,7 @@
+import Big, { BigSource } from "big.js";
 import { NullOrUndefined } from "../types";
+import { toBig } from "./bigNumber";
+import { getLocaleNumberSymbols } from "./numberLocale";
 
 /**
  * Configuration options for numeric validation.
@@ -6,14 +9,68 @@ import { NullOrUndefined } from "../types";
  * @property notNegative - If true, negative numbers are disallowed.
  * @property isInteger - If true, only integer values are allowed (no decimals).
  * @property allowEmpty - If true, empty strings ("") are considered valid.
+ * @property notZero - If true, zero ("0", "0.00", "-0") is disallowed.
+ * @property min - Smallest allowed value (inclusive), compared exactly via big.js.
+ * @property max - Largest allowed value (inclusive), compared exactly via big.js.
+ * @property maxFractionDigits - Maximum number of significant fraction digits (trailing zeros are ignored).
+ * @property allowExponent - If true, scientific notation is accepted ("1e6", "2.5E-3").
+ * @property allowThousandSeparators - If true, correctly grouped input is accepted ("1,234,567.5").
+ * @property locale - Locale of the separators (e.g. "de-DE" → "1.234,5"). Default: "," for groups and "." for decimals.
  */
 type IsNumericOptions = {
   notNegative?: boolean;
   isInteger?: boolean;
   allowEmpty?: boolean;
+  notZero?: boolean;
+  min?: BigSource;
+  max?: BigSource;
+  maxFractionDigits?: number;
+  allowExponent?: boolean;
+  allowThousandSeparators?: boolean;
+  locale?: string;
 };
 
 
+/**
+ * Reasons reported by {@link validateNumeric}, in the order they are checked:
+ * - `"invalidType"` → not a string or number (null, undefined, objects…)
+ * - `"empty"` → empty string without `allowEmpty`
+ * - `"notNumeric"` → not a number at all (letters, misplaced separators, "-.", exponent without `allowExponent`…)
+ * - `"negative"` → negative value with `notNegative`
+ * - `"notInteger"` → fraction with `isInteger`
+ * - `"tooManyFractionDigits"` → more fraction digits than `maxFractionDigits`
+ * - `"zero"` → zero with `notZero`
+ * - `"tooSmall"` / `"tooLarge"` → outside `min` / `max`
+ */
+export type NumericValidationError =
+  | "invalidType"
+  | "empty"
+  | "notNumeric"
+  | "negative"
+  | "notInteger"
+  | "tooManyFractionDigits"
+  | "zero"
+  | "tooSmall"
+  | "tooLarge";
+
+
+/**
+ * Result of {@link validateNumeric}.
+ *
+ * @property isValid - Same value as {@link isNumeric} would return.
+ * @property error - Why the value is invalid (only when `isValid` is false).
+ * @property limit - The violated limit for `"tooSmall"`, `"tooLarge"` and `"tooManyFractionDigits"`,
+ *   so messages like "Must be at least 10" can be built.
+ * @property value - Normalized plain number string (separators removed, "." as decimal point) of valid non-empty values.
+ */
+export interface INumericValidationResult {
+  isValid: boolean;
+  error?: NumericValidationError;
+  limit?: string;
+  value?: string;
+}
+
+
 // Predefined regex patterns
 const NUMERIC_REGEX = {
   base: /^-?\d*\.?\d*$/,
@@ -24,6 +81,9 @@ const NUMERIC_REGEX = {
 };
 
 
+// Optional exponent suffix, accepted with `allowExponent`
+const EXPONENT_REGEX = /[eE][-+]?\d+$/;
+
 // List of allowed primitive types for the `value` parameter
 const validTypes = ["number", "string"];
 
@@ -33,8 +93,8 @@ const validTypes = ["number", "string"];
  * Checks whether a given value is a valid numeric string or number,
  * according to the specified validation options.
  *
- * Supports validation for integers, negative values,
- * and optionally allows empty strings.
+ * Supports validation for integers, negative values, zero, bounds and precision,
+ * optionally allows empty strings, scientific notation and thousand separators.
  *
  * ---
  * **Examples:**
@@ -74,6 +134,28 @@ const validTypes = ["number", "string"];
  * isNumeric("", { allowEmpty: false }); // false
  * ```
  *
+ * ✅ **Not zero**
+ * ```ts
+ * isNumeric("0.00", { notZero: true }); // false
+ * isNumeric("0.01", { notZero: true }); // true
+ * ```
+ *
+ * ✅ **Bounds and precision** (compared exactly, no floating point)
+ * ```ts
+ * isNumeric("150", { min: 1, max: 100 });                 // false
+ * isNumeric("99.999", { max: "100", maxFractionDigits: 2 }); // false (3 fraction digits)
+ * isNumeric("12.50", { maxFractionDigits: 1 });           // true (trailing zero ignored)
+ * ```
+ *
+ * ✅ **Scientific notation and grouped input**
+ * ```ts
+ * isNumeric("1e6");                                             // false
+ * isNumeric("1e6", { allowExponent: true, isInteger: true });   // true
+ * isNumeric("1,234,567.5", { allowThousandSeparators: true });  // true
+ * isNumeric("1,23,4", { allowThousandSeparators: true });       // false (misplaced separators)
+ * isNumeric("1.234,5", { allowThousandSeparators: true, locale: "de-DE" }); // true
+ * ```
+ *
  * ✅ **Combined options**
  * ```ts
  * isNumeric("42", { isInteger: true, notNegative: true }); // true
@@ -89,35 +171,146 @@ const validTypes = ["number", "string"];
  * @param {boolean} [options.notNegative=false] - Disallow negative numbers (`-` prefix).
  * @param {boolean} [options.isInteger=false] - Only allow integers (no decimal point).
  * @param {boolean} [options.allowEmpty=false] - Treat empty string as valid input.
+ * @param {boolean} [options.notZero=false] - Disallow zero.
+ * @param {BigSource} [options.min] - Smallest allowed value (inclusive).
+ * @param {BigSource} [options.max] - Largest allowed value (inclusive).
+ * @param {number} [options.maxFractionDigits] - Maximum number of fraction digits.
+ * @param {boolean} [options.allowExponent=false] - Accept scientific notation.
+ * @param {boolean} [options.allowThousandSeparators=false] - Accept correctly grouped input.
+ * @param {string} [options.locale] - Locale of the group and decimal separators.
  *
  * @returns {boolean} `true` if the value matches the specified numeric criteria, otherwise `false`.
+ *   Use {@link validateNumeric} to find out why a value was rejected.
  */
 export function isNumeric(value: string | number | NullOrUndefined, options: IsNumericOptions = {}): boolean {
+  return validateNumeric(value, options).isValid;
+}
+
+
+
+/**
+ * Validates a value like {@link isNumeric}, but also reports **why** it failed,
+ * so form fields can show a specific message.
+ *
+ * @example
+ * validateNumeric("abc");                       // { isValid: false, error: "notNumeric" }
+ * validateNumeric("-5", { notNegative: true }); // { isValid: false, error: "negative" }
+ * validateNumeric("150", { max: 100 });         // { isValid: false, error: "tooLarge", limit: "100" }
+ * validateNumeric("1.234,50", { allowThousandSeparators: true, locale: "de-DE", maxFractionDigits: 2 });
+ * // { isValid: true, value: "1234.50" }
+ *
+ * @param {string | number | NullOrUndefined} value - The value to check.
+ * @param {Object} [options] - Same options as {@link isNumeric}.
+ * @returns {INumericValidationResult} `{ isValid: true, value }` or `{ isValid: false, error, limit? }`.
+ */
+export function validateNumeric(value: string | number | NullOrUndefined, options: IsNumericOptions = {}): INumericValidationResult {
   if (!validTypes.includes(typeof value)) {  // Reject values that are not string or number
-    return false;
+    return { isValid: false, error: "invalidType" };
   }
 
   if (value == null) {
-    return false; // null or undefined → treat as invalid value
+    return { isValid: false, error: "invalidType" }; // null or undefined → treat as invalid value
   }
 
-  value = value.toString();
+  const { notNegative, isInteger, allowEmpty, notZero, allowExponent, allowThousandSeparators, locale } = options;
 
-  if (value === "-." || value === ".") {  // Block edge cases that are not valid numbers
-    return false;
+  if (value === "") {
+    return allowEmpty ? { isValid: true } : { isValid: false, error: "empty" };
   }
 
-  const { notNegative, isInteger, allowEmpty } = options;
+  // Numbers are checked in plain notation ("1e+21" → "1000000000000000000000"), independent of the locale
+  const plain = typeof value === "number"
+    ? (Number.isFinite(value) ? Big(value).toFixed() : null)
+    : _toPlainNumber(value, !!allowThousandSeparators, locale);
 
-  if (value === "") {
-    return !!allowEmpty;
+  if (plain === null) {
+    return { isValid: false, error: "notNumeric" };
+  }
+
+  const exponent = allowExponent ? plain.match(EXPONENT_REGEX)?.[0] ?? "" : "";
+  const mantissa = plain.slice(0, plain.length - exponent.length);
+
+  if (mantissa === "-." || mantissa === "." || (exponent && (mantissa === "" || mantissa === "-"))) {  // Block edge cases that are not valid numbers
+    return { isValid: false, error: "notNumeric" };
+  }
+
+  if (!NUMERIC_REGEX.base.test(mantissa)) {
+    return { isValid: false, error: "notNumeric" };
+  }
+
+  if (notNegative && !NUMERIC_REGEX.notNegative.test(mantissa)) {
+    return { isValid: false, error: "negative" };
+  }
+
+  // "-" alone is accepted as the start of a typed number; it has no value to compare
+  const num = toBig(plain);
+
+  if (isInteger && (exponent ? !num || !num.eq(num.round(0, Big.roundDown)) : !NUMERIC_REGEX.integer.test(mantissa))) {
+    return { isValid: false, error: "notInteger" };
+  }
+
+  const maxFractionDigits = options.maxFractionDigits;
+
+  if (Number.isInteger(maxFractionDigits) && maxFractionDigits! >= 0 && num && _fractionDigits(num) > maxFractionDigits!) {
+    return { isValid: false, error: "tooManyFractionDigits", limit: String(maxFractionDigits) };
+  }
+
+  if (notZero && !NUMERIC_REGEX.notZero.test(mantissa.replace(/^-/, ""))) {
+    return { isValid: false, error: "zero" };
+  }
+
+  const min = toBig(options.min);
+  const max = toBig(options.max);
+
+  if (min && (!num || num.lt(min))) {
+    return { isValid: false, error: "tooSmall", limit: min.toString() };
+  }
+
+  if (max && (!num || num.gt(max))) {
+    return { isValid: false, error: "tooLarge", limit: max.toString() };
+  }
+
+  return { isValid: true, value: plain };
+}
+
+
+// Number of significant fraction digits of a value ("12.50" → 1, "1.5e-3" → 4)
+function _fractionDigits(num: Big): number {
+  return Math.max(num.c.length - num.e - 1, 0);
+}
+
+
+/**
+ * Removes thousand separators (only when correctly placed) and converts the locale decimal separator to ".".
+ * Returns `null` when the separators do not form a valid number.
+ */
+function _toPlainNumber(value: string, allowThousandSeparators: boolean, locale?: string): string | null {
+  const { group, decimal, primaryGroupSize, secondaryGroupSize } = getLocaleNumberSymbols(locale);
+  let plain = value;
+
+  if (allowThousandSeparators && group) {
+    // Users type plain spaces or apostrophes instead of typographic separators (fr-FR, de-CH)
+    const groupPattern = /\s/.test(group) ? "\\s" : (group === "’" ? "[’']" : _escapeRegex(group));
+    const grouped = new RegExp(`^(-?)(\\d{1,${secondaryGroupSize}}(?:${groupPattern}\\d{${secondaryGroupSize}})*${groupPattern}\\d{${primaryGroupSize}})(?=$|${_escapeRegex(decimal)}|[eE])`);
+    const match = grouped.exec(plain);
+
+    if (match) {
+      plain = match[1] + match[2].replace(new RegExp(groupPattern, "g"), "") + plain.slice(match[0].length);
+    }
+  }
+
+  if (decimal !== ".") {
+    if (plain.includes(".")) {
+      return null;  // "." is a group separator in this locale, and only valid where grouping is allowed
+    }
+
+    plain = plain.replace(decimal, ".");
   }
 
-  let numberMatch = NUMERIC_REGEX.base;
+  return plain;
+}
 
-  if (isInteger && notNegative) numberMatch = NUMERIC_REGEX.integerNotNegative;
-  else if (isInteger) numberMatch = NUMERIC_REGEX.integer;
-  else if (notNegative) numberMatch = NUMERIC_REGEX.notNegative;
 
-  return numberMatch.test(value);
-}
\ No newline at end of file
+function _escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -0,0 +1,305 @@
+import Big, { BigSource } from "big.js";
+import { toBig } from "./bigNumber";
+import { getLocaleNumberSymbols, localizeNumberString, replaceNumericParts } from "./numberLocale";
+import { RoundingMode, roundDecimal } from "./rounding";
+
+
+/**
+ * A money value: an exact big.js amount in a specific currency.
+ *
+ * @property amount - Amount in major units (e.g. `12.34` USD), already rounded to the currency's minor units.
+ * @property currency - ISO 4217 currency code in upper case (e.g. `"EUR"`).
+ */
+export interface IMoney {
+  amount: Big;
+  currency: string;
+}
+
+
+/**
+ * How the currency is shown by {@link formatMoney}:
+ * - `"symbol"` → `"$1,234.50"` (default)
+ * - `"narrowSymbol"` → `"$1,234.50"` even where `"US$"` would be used
+ * - `"code"` → `"USD 1,234.50"`
+ * - `"name"` → `"1,234.50 US dollars"`
+ */
+export type MoneyCurrencyDisplay = "symbol" | "narrowSymbol" | "code" | "name";
+
+
+/**
+ * Options for {@link formatMoney}.
+ *
+ * @property locale - BCP 47 locale tag. Default: `"en"`.
+ * @property currencyDisplay - How to show the currency. Default: `"symbol"`.
+ * @property hideFractIfInteger - Drops the minor units of whole amounts (`"$1,234"` instead of `"$1,234.00"`).
+ * @property roundingMode - How amounts with more digits than the currency's minor units are rounded. Default: `"halfUp"`.
+ * @property returnEmptyInsteadOfNA - Returns `""` instead of `"N/A"` for invalid values.
+ */
+export interface IFormatMoneyOptions {
+  locale?: string;
+  currencyDisplay?: MoneyCurrencyDisplay;
+  hideFractIfInteger?: boolean;
+  roundingMode?: RoundingMode;
+  returnEmptyInsteadOfNA?: boolean;
+}
+
+
+const _currencyRegex = /^[A-Z]{3}$/;
+
+// ISO 4217 currency codes by exponent (minor-unit digits). Intl's display digits differ for some codes
+// (e.g. IQD is shown with 0 digits but has 3), so the exponents are listed explicitly.
+// Recently withdrawn codes (BGN, HRK, ANG…) stay in the list, as stored amounts still use them.
+// Codes without minor units in ISO 4217 (XXX, XAU, XDR…) are not money and are left out.
+const _currenciesByMinorUnits: Record<number, string> = {
+  0: "BIF CLP DJF GNF ISK JPY KMF KRW PYG RWF UGX UYI VND VUV XAF XOF XPF",
+  2: "AED AFN ALL AMD ANG AOA ARS AUD AWG AZN BAM BBD BDT BGN BMD BND BOB BOV BRL BSD BTN BWP BYN BZD "
+    + "CAD CDF CHE CHF CHW CNY COP COU CRC CUC CUP CVE CZK DKK DOP DZD EGP ERN ETB EUR FJD FKP GBP GEL GHS GIP GMD "
+    + "GTQ GYD HKD HNL HRK HTG HUF IDR ILS INR IRR JMD KES KGS KHR KPW KYD KZT LAK LBP LKR LRD LSL MAD MDL MGA MKD "
+    + "MMK MNT MOP MRU MUR MVR MWK MXN MXV MYR MZN NAD NGN NIO NOK NPR NZD PAB PEN PGK PHP PKR PLN QAR RON RSD RUB "
+    + "SAR SBD SCR SDG SEK SGD SHP SLE SLL SOS SRD SSP STN SVC SYP SZL THB TJS TMT TOP TRY TTD TWD TZS UAH USD USN "
+    + "UYU UZS VED VES WST XCD XCG YER ZAR ZMW ZWG ZWL",
+  3: "BHD IQD JOD KWD LYD OMR TND",
+  4: "CLF UYW"
+};
+
+const _minorUnits = new Map<string, number>(
+  Object.entries(_currenciesByMinorUnits).flatMap(([units, codes]) => codes.split(" ").map(code => [code, Number(units)] as const))
+);
+
+
+
+/**
+ * Returns the number of minor-unit digits of a currency (ISO 4217 exponent).
+ *
+ * @param {string} currency - ISO 4217 currency code (case-insensitive).
+ * @returns {number | null} `2` for USD/EUR, `0` for JPY, `3` for KWD…, or `null` for unknown codes.
+ *
+ * @example
+ * getCurrencyMinorUnits("JPY"); // 0
+ * getCurrencyMinorUnits("kwd"); // 3
+ * getCurrencyMinorUnits("XXX"); // null
+ */
+export function getCurrencyMinorUnits(currency: string): number | null {
+  const code = _normalizeCurrency(currency);
+  return code ? _minorUnits.get(code) ?? null : null;
+}
+
+
+
+/**
+ * Creates a money value. The amount is rounded to the currency's minor units.
+ *
+ * @param {BigSource | null} [amount] - Amount in major units (e.g. `"12.345"`).
+ * @param {string} currency - ISO 4217 currency code (case-insensitive).
+ * @param {RoundingMode} [roundingMode] - How to round to the minor units. Default: `"halfUp"`.
+ * @returns {IMoney | null} The money value, or `null` for an invalid amount or currency.
+ *
+ * @example
+ * createMoney("19.999", "EUR");            // { amount: Big("20"), currency: "EUR" }
+ * createMoney(1234.5, "JPY");              // { amount: Big("1235"), currency: "JPY" }
+ * createMoney("2.345", "EUR", "halfEven"); // { amount: Big("2.34"), currency: "EUR" }
+ */
+export function createMoney(amount: BigSource | null | undefined, currency: string, roundingMode?: RoundingMode): IMoney | null {
+  const minorUnits = getCurrencyMinorUnits(currency);
+  const value = toBig(amount);
+
+  if (minorUnits === null || !value) {
+    return null;
+  }
+
+  return { amount: roundDecimal(value, minorUnits, roundingMode), currency: _normalizeCurrency(currency)! };
+}
+
+
+
+/**
+ * Adds two money values of the same currency.
+ *
+ * @returns {IMoney | null} The sum, or `null` for invalid values or different currencies.
+ *
+ * @example
+ * addMoney(createMoney("0.1", "USD"), createMoney("0.2", "USD")); // 0.30 USD — exact
+ */
+export function addMoney(a: IMoney | null | undefined, b: IMoney | null | undefined): IMoney | null {
+  if (!_isSameCurrency(a, b)) {
+    return null;
+  }
+
+  return createMoney(a!.amount.plus(b!.amount), a!.currency);
+}
+
+
+
+/**
+ * Subtracts `b` from `a`. Both values must be in the same currency.
+ *
+ * @returns {IMoney | null} The difference, or `null` for invalid values or different currencies.
+ */
+export function subtractMoney(a: IMoney | null | undefined, b: IMoney | null | undefined): IMoney | null {
+  if (!_isSameCurrency(a, b)) {
+    return null;
+  }
+
+  return createMoney(a!.amount.minus(b!.amount), a!.currency);
+}
+
+
+
+/**
+ * Multiplies a money value by a factor (quantity, tax rate, discount…).
+ * The result is rounded to the currency's minor units.
+ *
+ * @param {IMoney} money - The money value.
+ * @param {BigSource} factor - Multiplier (e.g. `3`, `"0.2"`, `"1.19"`).
+ * @param {RoundingMode} [roundingMode] - How to round to the minor units. Default: `"halfUp"`.
+ * @returns {IMoney | null} The product, or `null` for invalid input.
+ *
+ * @example
+ * multiplyMoney(createMoney("19.99", "EUR"), "0.19");          // 3.80 EUR
+ * multiplyMoney(createMoney("19.99", "EUR"), "0.19", "floor"); // 3.79 EUR
+ */
+export function multiplyMoney(money: IMoney | null | undefined, factor: BigSource | null | undefined, roundingMode?: RoundingMode): IMoney | null {
+  const multiplier = toBig(factor);
+
+  if (!_isMoney(money) || !multiplier) {
+    return null;
+  }
+
+  return createMoney(money.amount.times(multiplier), money.currency, roundingMode);
+}
+
+
+
+/**
+ * Splits a money value into parts without losing or creating a single minor unit.
+ *
+ * The total is distributed by the given ratios; leftover minor units go one by one
+ * to the parts with the largest remainders (earlier parts win ties).
+ * The parts always add up to exactly the original amount.
+ *
+ * @param {IMoney} money - The money value to split.
+ * @param {number | BigSource[]} ratios - Number of equal parts, or a list of non-negative ratios (e.g. `[50, 30, 20]`).
+ * @returns {IMoney[] | null} The parts, or `null` for invalid input (no parts, negative ratios, all ratios zero).
+ *
+ * @example
+ * allocateMoney(createMoney(100, "USD"), 3);        // [33.34, 33.33, 33.33] USD
+ * allocateMoney(createMoney(5, "EUR"), [70, 30]);   // [3.50, 1.50] EUR
+ * allocateMoney(createMoney(1000, "JPY"), [1, 1, 1]); // [334, 333, 333] JPY
+ */
+export function allocateMoney(money: IMoney | null | undefined, ratios: number | BigSource[]): IMoney[] | null {
+  if (!_isMoney(money)) {
+    return null;
+  }
+
+  const parsedRatios = typeof ratios === "number"
+    ? (Number.isInteger(ratios) && ratios > 0 && ratios <= 10_000 ? Array.from({ length: ratios }, () => Big(1)) : [])
+    : (Array.isArray(ratios) ? ratios.map(toBig) : []);
+
+  if (!parsedRatios.length || parsedRatios.some(w => !w || w.lt(0))) {
+    return null;
+  }
+
+  const weights = parsedRatios as Big[];
+  const total = weights.reduce((sum, w) => sum.plus(w), Big(0));
+
+  if (total.eq(0)) {
+    return null;
+  }
+
+  const minorUnits = getCurrencyMinorUnits(money.currency)!;
+  const unit = Big(10).pow(minorUnits);
+  const isNegative = money.amount.lt(0);
+  const totalMinor = money.amount.abs().times(unit);
+
+  // Exact share of every part in minor units, rounded down; the leftover is handed out afterwards
+  const shares = weights.map((w, index) => {
+    const exact = totalMinor.times(w).div(total);
+    const floor = exact.round(0, Big.roundDown);
+
+    return { index, floor, remainder: exact.minus(floor) };
+  });
+
+  let leftover = Number(totalMinor.minus(shares.reduce((sum, s) => sum.plus(s.floor), Big(0))).toString());
+
+  [...shares]
+    .sort((a, b) => b.remainder.cmp(a.remainder) || a.index - b.index)
+    .forEach(share => {
+      if (leftover > 0) {
+        share.floor = share.floor.plus(1);
+        leftover--;
+      }
+    });
+
+  return shares.map(({ floor }) => ({
+    amount: floor.div(unit).times(isNegative ? -1 : 1),
+    currency: money.currency
+  }));
+}
+
+
+
+/**
+ * Formats a money value for the given locale, with a currency symbol, code or name.
+ *
+ * The digits come from big.js, so amounts beyond `Number.MAX_SAFE_INTEGER` stay exact;
+ * the position of the sign and currency follows the locale (`"-$1,234.50"`, `"-1.234,50 €"`, `"€ -1.234,50"`).
+ *
+ * @param {IMoney} money - The money value.
+ * @param {IFormatMoneyOptions} [options] - Locale, currency display, rounding and "N/A" handling.
+ * @returns {string} The formatted amount, or `"N/A"` for invalid values.
+ *
+ * @example
+ * formatMoney(createMoney(-1234.5, "USD"));                                 // "-$1,234.50"
+ * formatMoney(createMoney(1234.5, "EUR"), { locale: "de-DE" });             // "1.234,50 €"
+ * formatMoney(createMoney(1234, "JPY"), { locale: "ja", currencyDisplay: "code" }); // "JPY 1,234"
+ * formatMoney(createMoney(1234.5, "KWD"), { currencyDisplay: "name" });     // "1,234.500 Kuwaiti dinars"
+ */
+export function formatMoney(money: IMoney | null | undefined, options: IFormatMoneyOptions = {}): string {
+  const { locale = "en", currencyDisplay = "symbol", hideFractIfInteger, roundingMode, returnEmptyInsteadOfNA } = options;
+
+  if (!_isMoney(money)) {
+    return returnEmptyInsteadOfNA ? "" : "N/A";
+  }
+
+  const minorUnits = getCurrencyMinorUnits(money.currency)!;
+  const fractionDigits = hideFractIfInteger && money.amount.round(0).eq(money.amount) ? 0 : minorUnits;
+  let formatter: Intl.NumberFormat;
+
+  try {
+    formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: money.currency,
+      currencyDisplay,
+      numberingSystem: "latn",
+      minimumFractionDigits: fractionDigits,
+      maximumFractionDigits: fractionDigits
+    });
+  }
+  catch {
+    return formatMoney(money, { ...options, locale: "en", currencyDisplay: "symbol" });
+  }
+
+  const rounded = roundDecimal(money.amount, fractionDigits, roundingMode);
+  const numberString = localizeNumberString(rounded.abs().toFixed(fractionDigits), getLocaleNumberSymbols(formatter.resolvedOptions().locale, money.currency));
+
+  // Intl picks the sign, symbol position and plural form of the currency name; big.js provides the digits
+  const parts = formatter.formatToParts(rounded.eq(0) ? 0 : Number(rounded.toString()));
+
+  return replaceNumericParts(parts, numberString);
+}
+
+
+function _normalizeCurrency(currency: string): string | null {
+  const code = typeof currency === "string" ? currency.trim().toUpperCase() : "";
+  return _currencyRegex.test(code) ? code : null;
+}
+
+
+function _isMoney(money: IMoney | null | undefined): money is IMoney {
+  return !!money && money.amount instanceof Big && getCurrencyMinorUnits(money.currency) !== null;
+}
+
+
+function _isSameCurrency(a: IMoney | null | undefined, b: IMoney | null | undefined): boolean {
+  return _isMoney(a) && _isMoney(b) && a.currency.toUpperCase() === b.currency.toUpperCase();
+}
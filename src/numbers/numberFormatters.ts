@@ -1,4 +1,7 @@
 import Big, { BigSource } from "big.js";
+import { toBig } from "./bigNumber";
+import { DEFAULT_NUMBER_SYMBOLS, delocalizeNumberString, getLocaleNumberSymbols, localizeNumberString, replaceNumericParts } from "./numberLocale";
+import { RoundingMode, roundDecimal } from "./rounding";
 
 
 Big.NE = -1000;
@@ -8,27 +11,65 @@ type NumFormatOptions = {
   keepFractions?: boolean;
   fractionDigits?: number;
   hideFractIfInteger?: boolean;
+  locale?: string;  // e.g. "de-DE" → "1.234,56", "en-IN" → "12,34,567.00". Default: "1,234.56"
+  roundingMode?: RoundingMode;  // Used with fractionDigits (and the default 2 digits). Default: "halfUp"
 };
 
 
-function _BN(value?: BigSource | null) {
-  if (value === null || value === undefined) {
-    return null;
-  }
+/**
+ * Result type of {@link GetNumberFromThousandSeparatorFormattedString}:
+ * - `"number"` → JS number (default, may lose precision)
+ * - `"big"` → exact `Big` instance
+ * - `"string"` → exact plain decimal string (e.g. `"1234567.891"`)
+ */
+type ParsedNumberOutput = "number" | "big" | "string";
 
-  try {
-    return Big(value);
-  }
-  catch {
-    return null;
+type ParseNumOptions<T extends ParsedNumberOutput = ParsedNumberOutput> = {
+  locale?: string;
+  output?: T;
+};
+
+type CompactFormatOptions = {
+  locale?: string;  // Default: "en"
+  style?: "short" | "long";  // "1.2K" vs "1.2 thousand". Default: "short"
+  fractionDigits?: number;  // Maximum fraction digits, trailing zeros are dropped. Default: 1
+  roundingMode?: RoundingMode;  // Default: "halfUp"
+};
+
+
+// Largest power of 10 checked for compact units (en stops at trillions, ja at 京 = 10^16)
+const _MAX_COMPACT_EXPONENT = 20;
+
+// For each locale/style: the divisor exponent used for numbers with N+1 integer digits
+const _compactScalesCache = new Map<string, number[]>();
+
+
+function _getCompactScales(formatter: Intl.NumberFormat, key: string): number[] {
+  let scales = _compactScalesCache.get(key);
+
+  if (!scales) {
+    scales = [];
+
+    for (let exponent = 0; exponent <= _MAX_COMPACT_EXPONENT; exponent++) {
+      const parts = formatter.formatToParts(10 ** exponent);
+      // fr long writes 1000 as just "mille" → treat as one digit
+      const integerDigits = Math.max(parts.filter(p => p.type === "integer").reduce((sum, p) => sum + p.value.length, 0), 1);
+
+      // e.g. en: 10^4 → "10K" → divide by 10^3; de: 10^4 → "10.000" → no unit for thousands
+      scales.push(parts.some(p => p.type === "compact") ? exponent - integerDigits + 1 : 0);
+    }
+
+    _compactScalesCache.set(key, scales);
   }
+
+  return scales;
 }
 
 
 
 export function FormatWithThousandSeparator(value?: BigSource | null, options?: NumFormatOptions) {
   // 3753483
-  const num = _BN(value);
+  const num = toBig(value);
 
   if (!num) {
     return "N/A";
@@ -44,23 +85,108 @@ export function FormatWithThousandSeparator(value?: BigSource | null, options?:
     stringifiedValue = fract ? num.toString() : int;
   }
   else if (typeof options?.fractionDigits === "number") {
-    stringifiedValue = num.toFixed(options.fractionDigits);
+    stringifiedValue = roundDecimal(num, options.fractionDigits, options.roundingMode).toFixed(options.fractionDigits);
   }
   else {
-    stringifiedValue = num.toFixed(2);
+    stringifiedValue = roundDecimal(num, 2, options?.roundingMode).toFixed(2);
   }
 
-  const decimalPointIndex = stringifiedValue.indexOf(".");
+  return localizeNumberString(stringifiedValue, getLocaleNumberSymbols(options?.locale));
+}
+
+
+
+/**
+ * Parses a string produced by {@link FormatWithThousandSeparator} (or typed by a user) back to a number.
+ *
+ * Without `locale`, commas are treated as group separators and `"."` as the decimal point.
+ * With `locale`, the locale's own separators are used (plain spaces are accepted where the locale groups with spaces).
+ *
+ * @example
+ * GetNumberFromThousandSeparatorFormattedString("1,234.56");                                    // 1234.56
+ * GetNumberFromThousandSeparatorFormattedString("1.234,56", { locale: "de-DE", output: "big" }); // Big("1234.56")
+ * GetNumberFromThousandSeparatorFormattedString("12,34,567.891", { locale: "en-IN", output: "string" }); // "1234567.891"
+ */
+export function GetNumberFromThousandSeparatorFormattedString(value: string, options?: ParseNumOptions<"number">): number | null;
+export function GetNumberFromThousandSeparatorFormattedString(value: string, options: ParseNumOptions<"big">): Big | null;
+export function GetNumberFromThousandSeparatorFormattedString(value: string, options: ParseNumOptions<"string">): string | null;
+export function GetNumberFromThousandSeparatorFormattedString(value: string, options?: ParseNumOptions): number | Big | string | null;
+export function GetNumberFromThousandSeparatorFormattedString(value: string, options?: ParseNumOptions) {
+  const valueWithNoSeparators = delocalizeNumberString(value, getLocaleNumberSymbols(options?.locale));
+  const num = valueWithNoSeparators === null ? null : toBig(valueWithNoSeparators);
 
-  return stringifiedValue.replace(/\d(?=(?:\d{3})+(?:\.|$))/g, (m, i) =>
-    decimalPointIndex < 0 || i < decimalPointIndex ? `${m},` : m,
-  );
+  if (!num) {
+    return null;
+  }
+
+  switch (options?.output) {
+    case "big": return num;
+    case "string": return num.toString();
+    default: return num.toNumber();
+  }
 }
 
 
 
-export function GetNumberFromThousandSeparatorFormattedString(value: string) {
-  const valueWithNoSeparators = value.replace(/,/g, "");
-  const num = _BN(valueWithNoSeparators);
-  return num ? num.toNumber() : null;
+/**
+ * Formats a number in compact notation for cards and chart axes: `"1.2K"`, `"3.4M"`, `"5B"`.
+ *
+ * Units and suffixes come from the locale (e.g. de: `"2 Mio."`, ja: `"1.2万"`, en-IN: `"10L"`),
+ * but the rounding is done with big.js, so unit boundaries are exact (`999950` → `"1M"`, not `"1000K"`)
+ * and values beyond `Number.MAX_SAFE_INTEGER` keep their precision.
+ *
+ * @example
+ * FormatCompactNumber(1234);                                   // "1.2K"
+ * FormatCompactNumber("999950");                               // "1M"
+ * FormatCompactNumber(2500000, { style: "long" });             // "2.5 million"
+ * FormatCompactNumber(-1234567, { locale: "de-DE" });          // "-1,2 Mio."
+ * FormatCompactNumber(1234, { fractionDigits: 2 });            // "1.23K"
+ * FormatCompactNumber(1299, { roundingMode: "down" });         // "1.2K"
+ * FormatCompactNumber(null);                                   // "N/A"
+ */
+export function FormatCompactNumber(value?: BigSource | null, options?: CompactFormatOptions) {
+  const num = toBig(value);
+
+  if (!num) {
+    return "N/A";
+  }
+
+  const style = options?.style === "long" ? "long" : "short";
+  const fractionDigits = Number.isInteger(options?.fractionDigits) ? Math.min(Math.max(options!.fractionDigits!, 0), 20) : 1;
+  const locale = getLocaleNumberSymbols(options?.locale) === DEFAULT_NUMBER_SYMBOLS ? "en" : options!.locale!.trim();
+
+  const formatter = new Intl.NumberFormat(locale, {
+    notation: "compact",
+    compactDisplay: style,
+    numberingSystem: "latn",
+    maximumFractionDigits: fractionDigits
+  });
+
+  const scales = _getCompactScales(formatter, `${locale}|${style}`);
+  const abs = num.abs();
+
+  // Number of integer digits - 1; rounding may carry into the next unit (999.95K → 1M), so check twice
+  let exponent = abs.gte(1) ? abs.round(0, Big.roundDown).toFixed().length - 1 : 0;
+  let divisor = Big(10).pow(scales[Math.min(exponent, _MAX_COMPACT_EXPONENT)]);
+  let mantissa = roundDecimal(num.div(divisor), fractionDigits, options?.roundingMode).abs();
+
+  if (mantissa.times(divisor).gte(Big(10).pow(exponent + 1))) {
+    exponent++;
+    divisor = Big(10).pow(scales[Math.min(exponent, _MAX_COMPACT_EXPONENT)]);
+    mantissa = roundDecimal(num.div(divisor), fractionDigits, options?.roundingMode).abs();
+  }
+
+  const isNegative = num.lt(0) && !mantissa.eq(0);
+  const symbols = getLocaleNumberSymbols(locale);
+
+  // Compact notation never groups 4-digit numbers ("1234", not "1,234")
+  const numberString = localizeNumberString(mantissa.toString(), {
+    ...symbols,
+    minimumGroupingDigits: Math.max(symbols.minimumGroupingDigits, 2)
+  });
+
+  // Let Intl pick the sign and suffix (and its plural form, e.g. "1 Million" / "2 Millionen"), then swap in the exact digits
+  const parts = formatter.formatToParts(Number(mantissa.times(divisor).toString()) * (isNegative ? -1 : 1));
+
+  return replaceNumericParts(parts, numberString);
 }
\ No newline at end of file
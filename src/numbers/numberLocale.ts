@@ -0,0 +1,187 @@
+/**
+ * Internal helpers that apply locale number symbols (grouping, decimal separator, minus sign)
+ * to plain big.js strings, so formatting never goes through lossy JS numbers.
+ */
+
+
+/**
+ * Number symbols of a locale.
+ *
+ * @property primaryGroupSize - Size of the group right before the decimal separator (3 almost everywhere).
+ * @property secondaryGroupSize - Size of all other groups (2 for Indian lakh/crore grouping, otherwise 3).
+ * @property minimumGroupingDigits - Integer digits needed before grouping starts (2 for e.g. es, pl: "1234" but "12 345").
+ */
+export interface ILocaleNumberSymbols {
+  group: string;
+  decimal: string;
+  minusSign: string;
+  primaryGroupSize: number;
+  secondaryGroupSize: number;
+  minimumGroupingDigits: number;
+}
+
+
+// Symbols used when no locale is given — the historical "1,234.56" format
+export const DEFAULT_NUMBER_SYMBOLS: ILocaleNumberSymbols = {
+  group: ",",
+  decimal: ".",
+  minusSign: "-",
+  primaryGroupSize: 3,
+  secondaryGroupSize: 3,
+  minimumGroupingDigits: 1
+};
+
+
+// Intl formatters are expensive to create — keep the derived symbols per locale
+const _symbolsCache = new Map<string, ILocaleNumberSymbols>();
+
+// Space-like group separators (fr-FR uses U+202F, others U+00A0) — users type plain spaces instead
+const _spaceRegex = /\s/;
+
+
+
+/**
+ * Returns the number symbols of a locale. Digits are always Latin (`0-9`).
+ * Without a locale (or with an unsupported one), returns {@link DEFAULT_NUMBER_SYMBOLS}.
+ *
+ * Pass `currency` for money amounts — some locales use different separators there
+ * (fr-CH: `"1 234,5"` but `"1 234.50 CHF"`).
+ */
+export function getLocaleNumberSymbols(locale?: string | null, currency?: string): ILocaleNumberSymbols {
+  if (typeof locale !== "string" || !locale.trim()) {
+    return DEFAULT_NUMBER_SYMBOLS;
+  }
+
+  const key = currency ? `${locale.trim()}|${currency}` : locale.trim();
+  let symbols = _symbolsCache.get(key);
+
+  if (symbols) {
+    return symbols;
+  }
+
+  try {
+    const formatter = new Intl.NumberFormat(locale.trim(), {
+      numberingSystem: "latn",
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+      ...(currency ? { style: "currency", currency } : {})
+    });
+    const parts = formatter.formatToParts(-123456789.5);
+    const integerGroups = parts.filter(p => p.type === "integer").map(p => p.value.length);
+    const hasGroupAt4Digits = formatter.formatToParts(1234).some(p => p.type === "group");
+
+    symbols = {
+      group: parts.find(p => p.type === "group")?.value ?? "",
+      decimal: parts.find(p => p.type === "decimal")?.value ?? ".",
+      minusSign: parts.find(p => p.type === "minusSign")?.value ?? "-",
+      primaryGroupSize: integerGroups[integerGroups.length - 1] ?? 3,
+      secondaryGroupSize: integerGroups.length > 2 ? integerGroups[integerGroups.length - 2] : 3,
+      minimumGroupingDigits: hasGroupAt4Digits ? 1 : 2
+    };
+  }
+  catch {
+    symbols = DEFAULT_NUMBER_SYMBOLS;
+  }
+
+  _symbolsCache.set(key, symbols);
+
+  return symbols;
+}
+
+
+
+/**
+ * Localizes a plain decimal string (e.g. big.js `toFixed()` output `"-1234567.50"`).
+ *
+ * @example
+ * localizeNumberString("-1234567.50", getLocaleNumberSymbols("de-DE")); // "-1.234.567,50"
+ * localizeNumberString("1234567", getLocaleNumberSymbols("en-IN"));     // "12,34,567"
+ */
+export function localizeNumberString(value: string, symbols: ILocaleNumberSymbols = DEFAULT_NUMBER_SYMBOLS): string {
+  const isNegative = value.startsWith("-");
+  const [int, fract] = (isNegative ? value.slice(1) : value).split(".");
+  const { group, decimal, minusSign, primaryGroupSize, secondaryGroupSize, minimumGroupingDigits } = symbols;
+
+  let grouped = int;
+
+  if (group && int.length >= primaryGroupSize + minimumGroupingDigits) {
+    const groups = [int.slice(-primaryGroupSize)];
+    let rest = int.slice(0, -primaryGroupSize);
+
+    while (rest.length > secondaryGroupSize) {
+      groups.unshift(rest.slice(-secondaryGroupSize));
+      rest = rest.slice(0, -secondaryGroupSize);
+    }
+
+    groups.unshift(rest);
+    grouped = groups.join(group);
+  }
+
+  return `${isNegative ? minusSign : ""}${grouped}${fract === undefined ? "" : `${decimal}${fract}`}`;
+}
+
+
+
+/**
+ * Converts a localized number string back to a plain decimal string accepted by big.js.
+ * Group separators are removed, the decimal separator becomes `"."` and any minus sign becomes `"-"`.
+ *
+ * @returns The plain string, or `null` if the value is not a number in that locale.
+ */
+export function delocalizeNumberString(value: string, symbols: ILocaleNumberSymbols = DEFAULT_NUMBER_SYMBOLS): string | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const { group, decimal, minusSign } = symbols;
+  let plain = value.trim();
+
+  if (group) {
+    plain = _spaceRegex.test(group) ? plain.replace(/\s/g, "") : plain.split(group).join("");
+  }
+
+  // "1'234" is commonly typed instead of the typographic "1’234" (de-CH)
+  if (group === "’") {
+    plain = plain.replace(/'/g, "");
+  }
+
+  if (decimal !== ".") {
+    if (plain.includes(".")) {
+      return null;  // a "." is neither a separator nor the decimal point here
+    }
+
+    plain = plain.split(decimal).join(".");
+  }
+
+  plain = plain.replace(minusSign, "-").replace(/^−/, "-");
+
+  return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(plain) ? plain.replace(/^\+/, "") : null;
+}
+
+
+
+/**
+ * Joins `Intl.NumberFormat#formatToParts` output, replacing its digits with an exact number string.
+ * Lets Intl place the sign, currency and compact units while the digits come from big.js.
+ *
+ * @param parts - Parts of the number formatted by Intl (the sign must already match).
+ * @param numberString - Localized, unsigned number (see {@link localizeNumberString}).
+ */
+export function replaceNumericParts(parts: Intl.NumberFormatPart[], numberString: string): string {
+  let isNumberInserted = false;
+
+  return parts
+    .map(({ type, value }) => {
+      if (type !== "integer" && type !== "group" && type !== "decimal" && type !== "fraction") {
+        return value;
+      }
+
+      if (isNumberInserted) {
+        return "";
+      }
+
+      isNumberInserted = true;
+      return numberString;
+    })
+    .join("");
+}
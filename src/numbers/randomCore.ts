@@ -0,0 +1,213 @@
+/**
+ * Internal random algorithms shared by every random source.
+ *
+ * All helpers take a `next` function returning uniformly distributed unsigned 32-bit integers,
+ * so the same unbiased algorithms (rejection sampling, Fisher–Yates…) work for crypto and seeded sources.
+ */
+
+
+export type NextUint32 = () => number;
+
+
+const _UINT32_RANGE = 2 ** 32;
+const _FLOAT_DENOMINATOR = 2 ** 53;
+
+export const DEFAULT_ID_ALPHABET = "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz_-";
+
+// `crypto.getRandomValues` is relatively slow per call — draw words in batches
+const _cryptoBuffer = new Uint32Array(256);
+let _cryptoBufferIndex = _cryptoBuffer.length;
+
+
+
+/**
+ * Cryptographically secure {@link NextUint32}, backed by `crypto.getRandomValues`.
+ */
+export function cryptoNextUint32(): number {
+  if (_cryptoBufferIndex >= _cryptoBuffer.length) {
+    crypto.getRandomValues(_cryptoBuffer);
+    _cryptoBufferIndex = 0;
+  }
+
+  return _cryptoBuffer[_cryptoBufferIndex++];
+}
+
+
+
+/**
+ * Unbiased random integer in `[0, range)` for any positive bigint `range`.
+ * Draws just enough 32-bit words, masks the excess bits and rejects values outside the range.
+ */
+export function randomBigIntBelow(next: NextUint32, range: bigint): bigint {
+  if (range <= 1n) {
+    return 0n;
+  }
+
+  const bits = (range - 1n).toString(2).length;
+  const words = Math.ceil(bits / 32);
+  const mask = (1n << BigInt(bits)) - 1n;
+
+  while (true) {
+    let value = 0n;
+
+    for (let i = 0; i < words; i++) {
+      value = (value << 32n) | BigInt(next() >>> 0);
+    }
+
+    value &= mask;
+
+    if (value < range) {
+      return value;
+    }
+  }
+}
+
+
+
+/**
+ * Unbiased random integer in `[0, range)`, for ranges up to `2^53`.
+ */
+export function randomIntBelow(next: NextUint32, range: number): number {
+  if (range <= 1) {
+    return 0;
+  }
+
+  if (range > _UINT32_RANGE) {
+    return Number(randomBigIntBelow(next, BigInt(range)));
+  }
+
+  // Largest multiple of `range` that fits into 32 bits — values above it would bias the result
+  const limit = _UINT32_RANGE - (_UINT32_RANGE % range);
+
+  while (true) {
+    const value = next() >>> 0;
+
+    if (value < limit) {
+      return value % range;
+    }
+  }
+}
+
+
+
+/**
+ * Uniform float in `[0, 1)` with the full 53-bit precision of a double.
+ */
+export function randomFloat(next: NextUint32): number {
+  const high = next() >>> 11;  // 21 bits
+  const low = next() >>> 0;    // 32 bits
+
+  return (high * _UINT32_RANGE + low) / _FLOAT_DENOMINATOR;
+}
+
+
+
+/**
+ * Fills a byte array from 32-bit words.
+ */
+export function randomBytes(next: NextUint32, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+
+  for (let i = 0; i < length; i += 4) {
+    let word = next() >>> 0;
+
+    for (let j = i; j < Math.min(i + 4, length); j++) {
+      bytes[j] = word & 0xff;
+      word >>>= 8;
+    }
+  }
+
+  return bytes;
+}
+
+
+
+/**
+ * Fisher–Yates shuffle of the first `count` positions of a copy of `items`.
+ * With `count === items.length` this is a full shuffle, otherwise a sample without replacement.
+ */
+export function shuffledPrefix<T>(next: NextUint32, items: readonly T[], count: number): T[] {
+  const result = [...items];
+
+  for (let i = 0; i < count; i++) {
+    const j = i + randomIntBelow(next, result.length - i);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+
+  return result.slice(0, count);
+}
+
+
+
+/**
+ * Picks an index with probability proportional to its weight.
+ * Invalid, negative and zero weights never win. Returns `-1` when no weight is positive.
+ */
+export function weightedIndex(next: NextUint32, weights: readonly number[]): number {
+  const safeWeights = weights.map(w => (typeof w === "number" && Number.isFinite(w) && w > 0 ? w : 0));
+  const total = safeWeights.reduce((sum, w) => sum + w, 0);
+
+  if (!(total > 0) || !Number.isFinite(total)) {
+    return -1;
+  }
+
+  let target = randomFloat(next) * total;
+
+  for (let i = 0; i < safeWeights.length; i++) {
+    if (safeWeights[i] > 0 && target < safeWeights[i]) {
+      return i;
+    }
+
+    target -= safeWeights[i];
+  }
+
+  // Floating point leftovers → the last item with a positive weight
+  return safeWeights.map(w => w > 0).lastIndexOf(true);
+}
+
+
+
+/**
+ * Random string of `length` characters drawn uniformly from `alphabet`.
+ */
+export function randomString(next: NextUint32, length: number, alphabet: string = DEFAULT_ID_ALPHABET): string {
+  const chars = Array.from(alphabet);
+  let result = "";
+
+  for (let i = 0; i < length; i++) {
+    result += chars[randomIntBelow(next, chars.length)];
+  }
+
+  return result;
+}
+
+
+
+/**
+ * Formats 16 bytes as a UUID string after setting its version and RFC 9562 variant bits.
+ */
+export function formatUuid(bytes: Uint8Array, version: number): string {
+  bytes[6] = (bytes[6] & 0x0f) | (version << 4);
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("");
+
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+
+
+/**
+ * 16 UUID v7 bytes: a 48-bit big-endian UNIX millisecond timestamp followed by random bits.
+ */
+export function uuidV7Bytes(next: NextUint32, timestamp: number): Uint8Array {
+  const bytes = randomBytes(next, 16);
+  let time = Math.max(0, Math.min(Math.floor(timestamp), 2 ** 48 - 1));
+
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = time % 256;
+    time = Math.floor(time / 256);
+  }
+
+  return bytes;
+}
@@ -0,0 +1,306 @@
+import {
+  DEFAULT_ID_ALPHABET,
+  NextUint32,
+  cryptoNextUint32,
+  formatUuid,
+  randomBigIntBelow,
+  randomBytes,
+  randomFloat,
+  randomIntBelow,
+  randomString,
+  shuffledPrefix,
+  uuidV7Bytes,
+  weightedIndex
+} from "./randomCore";
+
+
+/**
+ * Encoding of random tokens:
+ * - `"hex"` → `"9f86d081884c7d65…"` (2 characters per byte)
+ * - `"base64url"` → URL- and cookie-safe base64 without padding (~1.33 characters per byte)
+ */
+export type RandomTokenEncoding = "hex" | "base64url";
+
+
+/**
+ * A source of random values. Use {@link cryptoRandom} for secure values
+ * or {@link createSeededRandom} for reproducible sequences (demo data, screenshots, tests).
+ *
+ * Every method is defensive and never throws; invalid arguments fall back to safe defaults
+ * (see the matching `getCrypto…` functions for the exact rules).
+ */
+export interface IRandomSource {
+  /** Next raw unsigned 32-bit integer. */
+  nextUint32(): number;
+  /** Integer between `min` and `max` (inclusive). Default: `0..1`. */
+  int(min?: number, max?: number): number;
+  /** Bigint between `min` and `max` (inclusive). Default: `0n..1n`. */
+  bigInt(min?: bigint | number, max?: bigint | number): bigint;
+  /** Uniform float in `[min, max)`. Default: `[0, 1)`. */
+  float(min?: number, max?: number): number;
+  /** Shuffled copy of the array (Fisher–Yates). */
+  shuffle<T>(items: readonly T[]): T[];
+  /** `count` distinct items, in random order. */
+  sample<T>(items: readonly T[], count: number): T[];
+  /** One uniformly chosen item, or `undefined` for an empty array. */
+  pick<T>(items: readonly T[]): T | undefined;
+  /** One item chosen with probability proportional to its weight. */
+  pickWeighted<T>(items: readonly T[], weights: readonly number[] | ((item: T, index: number) => number)): T | undefined;
+  /** Random ID string. Default: 21 URL-safe characters. */
+  id(length?: number, alphabet?: string): string;
+  /** Random token of `bytes` bytes. Default: 32 bytes, hex. */
+  token(bytes?: number, encoding?: RandomTokenEncoding): string;
+  /** UUID version 4 (random) or 7 (time-ordered, `timestamp` defaults to `Date.now()`). */
+  uuid(version?: 4 | 7, timestamp?: number): string;
+}
+
+
+/**
+ * A reproducible {@link IRandomSource}: the same seed always yields the same sequence.
+ *
+ * @property seed - The seed the generator was created with.
+ * @property clone - Creates an independent copy at the current position of the sequence.
+ */
+export interface ISeededRandomSource extends IRandomSource {
+  readonly seed: number | string;
+  clone(): ISeededRandomSource;
+}
+
+
+// Hard limits that keep a typo from allocating huge strings
+const _MAX_ID_LENGTH = 1024;
+const _MAX_TOKEN_BYTES = 1024;
+
+const _BASE64URL_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_";
+
+
+
+/**
+ * The cryptographically secure random source, backed by `crypto.getRandomValues`.
+ * It is the default source of every helper that accepts an {@link IRandomSource}.
+ */
+export const cryptoRandom: IRandomSource = _createRandomSource(cryptoNextUint32);
+
+
+
+/**
+ * Creates a seedable pseudo-random generator (xoshiro128**) with the same API as {@link cryptoRandom}.
+ *
+ * Sequences are identical across runtimes and platforms for the same seed,
+ * which makes generated demo data, screenshots and test fixtures stable.
+ * ⚠️ Not suitable for secrets — use {@link cryptoRandom} for tokens and IDs that must be unguessable.
+ *
+ * @param {number | string} seed - Any number or string (e.g. `42`, `"dashboard-demo"`).
+ * @returns {ISeededRandomSource} The generator.
+ *
+ * @example
+ * const random = createSeededRandom("demo");
+ * random.int(1, 100);                     // always the same value for "demo"
+ * random.shuffle(["a", "b", "c"]);
+ * getRandomPastelColors(5, createSeededRandom(7)); // the same 5 colors on every render
+ */
+export function createSeededRandom(seed: number | string): ISeededRandomSource {
+  const safeSeed = typeof seed === "number" || typeof seed === "string" ? seed : 0;
+
+  return _createSeededSource(safeSeed, _seedState(safeSeed));
+}
+
+
+function _createSeededSource(seed: number | string, state: Uint32Array): ISeededRandomSource {
+  const next = () => _xoshiro128StarStar(state);
+
+  return {
+    ..._createRandomSource(next),
+    seed,
+    clone: () => _createSeededSource(seed, state.slice())
+  };
+}
+
+
+function _createRandomSource(next: NextUint32): IRandomSource {
+  return {
+    nextUint32: () => next() >>> 0,
+
+    int(min?: number, max?: number): number {
+      // sanitize inputs
+      let safeMin = (typeof min === "number" && Number.isFinite(min)) ? Math.round(min) : 0;
+      let safeMax = (typeof max === "number" && Number.isFinite(max)) ? Math.round(max) : 1;
+
+      // clamp to safe integer bounds
+      safeMin = Math.max(Number.MIN_SAFE_INTEGER, Math.min(Number.MAX_SAFE_INTEGER, safeMin));
+      safeMax = Math.max(Number.MIN_SAFE_INTEGER, Math.min(Number.MAX_SAFE_INTEGER, safeMax));
+
+      // swap if inverted
+      if (safeMin > safeMax) {
+        [safeMin, safeMax] = [safeMax, safeMin];
+      }
+
+      const range = safeMax - safeMin + 1;
+
+      // Up to 2^53 the range is exact as a number; beyond that (max. 2^54 - 1) count in bigint
+      if (range <= Number.MAX_SAFE_INTEGER) {
+        return safeMin + randomIntBelow(next, range);
+      }
+
+      return Number(BigInt(safeMin) + randomBigIntBelow(next, BigInt(safeMax) - BigInt(safeMin) + 1n));
+    },
+
+    bigInt(min?: bigint | number, max?: bigint | number): bigint {
+      let safeMin = _toBigInt(min, 0n);
+      let safeMax = _toBigInt(max, 1n);
+
+      if (safeMin > safeMax) {
+        [safeMin, safeMax] = [safeMax, safeMin];
+      }
+
+      return safeMin + randomBigIntBelow(next, safeMax - safeMin + 1n);
+    },
+
+    float(min?: number, max?: number): number {
+      let safeMin = typeof min === "number" && Number.isFinite(min) ? min : 0;
+      let safeMax = typeof max === "number" && Number.isFinite(max) ? max : 1;
+
+      if (safeMin > safeMax) {
+        [safeMin, safeMax] = [safeMax, safeMin];
+      }
+
+      const value = safeMin + randomFloat(next) * (safeMax - safeMin);
+
+      // Rounding can reach `max` for huge spans — keep the interval half-open
+      return value < safeMax || safeMin === safeMax ? value : safeMin;
+    },
+
+    shuffle<T>(items: readonly T[]): T[] {
+      return Array.isArray(items) ? shuffledPrefix(next, items, items.length) : [];
+    },
+
+    sample<T>(items: readonly T[], count: number): T[] {
+      if (!Array.isArray(items) || typeof count !== "number" || !(count > 0)) {
+        return [];
+      }
+
+      return shuffledPrefix(next, items, Math.min(Math.floor(count), items.length));
+    },
+
+    pick<T>(items: readonly T[]): T | undefined {
+      return Array.isArray(items) && items.length ? items[randomIntBelow(next, items.length)] : undefined;
+    },
+
+    pickWeighted<T>(items: readonly T[], weights: readonly number[] | ((item: T, index: number) => number)): T | undefined {
+      if (!Array.isArray(items)) {
+        return undefined;
+      }
+
+      const itemWeights = typeof weights === "function"
+        ? items.map((item, index) => weights(item, index))
+        : items.map((_, index) => (Array.isArray(weights) ? weights[index] : 0));
+
+      const index = weightedIndex(next, itemWeights);
+
+      return index < 0 ? undefined : items[index];
+    },
+
+    id(length: number = 21, alphabet: string = DEFAULT_ID_ALPHABET): string {
+      const safeLength = typeof length === "number" && Number.isFinite(length) ? Math.min(Math.max(Math.round(length), 1), _MAX_ID_LENGTH) : 21;
+      const chars = typeof alphabet === "string" ? [...new Set(Array.from(alphabet))].join("") : "";
+
+      return randomString(next, safeLength, chars.length >= 2 ? chars : DEFAULT_ID_ALPHABET);
+    },
+
+    token(bytes: number = 32, encoding: RandomTokenEncoding = "hex"): string {
+      const safeBytes = typeof bytes === "number" && Number.isFinite(bytes) ? Math.min(Math.max(Math.round(bytes), 1), _MAX_TOKEN_BYTES) : 32;
+      const data = randomBytes(next, safeBytes);
+
+      return encoding === "base64url" ? _toBase64Url(data) : Array.from(data, b => b.toString(16).padStart(2, "0")).join("");
+    },
+
+    uuid(version: 4 | 7 = 4, timestamp?: number): string {
+      if (version === 7) {
+        const time = typeof timestamp === "number" && Number.isFinite(timestamp) ? timestamp : Date.now();
+        return formatUuid(uuidV7Bytes(next, time), 7);
+      }
+
+      return formatUuid(randomBytes(next, 16), 4);
+    }
+  };
+}
+
+
+function _toBigInt(value: bigint | number | undefined, fallback: bigint): bigint {
+  if (typeof value === "bigint") {
+    return value;
+  }
+
+  return typeof value === "number" && Number.isInteger(value) ? BigInt(value) : fallback;
+}
+
+
+function _toBase64Url(data: Uint8Array): string {
+  let bits = 0;
+  let buffer = 0;
+  let result = "";
+
+  data.forEach(byte => {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+
+    while (bits >= 6) {
+      bits -= 6;
+      result += _BASE64URL_ALPHABET[(buffer >> bits) & 0x3f];
+    }
+  });
+
+  return bits > 0 ? result + _BASE64URL_ALPHABET[(buffer << (6 - bits)) & 0x3f] : result;
+}
+
+
+/**
+ * Expands a seed into the 128-bit xoshiro state: strings are hashed (FNV-1a),
+ * then splitmix32 spreads the bits so similar seeds give unrelated sequences.
+ */
+function _seedState(seed: number | string): Uint32Array {
+  let hash = 0x811c9dc5;
+  const text = typeof seed === "number" ? `n:${seed}` : `s:${seed}`;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  const state = new Uint32Array(4);
+
+  for (let i = 0; i < 4; i++) {
+    hash = (hash + 0x9e3779b9) | 0;
+    let z = hash;
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+    state[i] = z ^ (z >>> 16);
+  }
+
+  // The all-zero state would only ever produce zeros
+  if (state.every(word => word === 0)) {
+    state[0] = 1;
+  }
+
+  return state;
+}
+
+
+function _xoshiro128StarStar(state: Uint32Array): number {
+  const result = Math.imul(_rotl(Math.imul(state[1], 5), 7), 9) >>> 0;
+  const t = state[1] << 9;
+
+  state[2] ^= state[0];
+  state[3] ^= state[1];
+  state[1] ^= state[2];
+  state[0] ^= state[3];
+  state[2] ^= t;
+  state[3] = _rotl(state[3], 11);
+
+  return result;
+}
+
+
+function _rotl(value: number, shift: number): number {
+  return (value << shift) | (value >>> (32 - shift));
+}
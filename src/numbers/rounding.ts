@@ -0,0 +1,60 @@
+import Big, { BigSource } from "big.js";
+import { toBig } from "./bigNumber";
+
+
+/**
+ * How a value is rounded to a number of fraction digits:
+ * - `"halfUp"` → to the nearest value, ties away from zero: `2.5` → `3`, `-2.5` → `-3` (default)
+ * - `"halfEven"` → to the nearest value, ties to the even neighbour ("banker's rounding"): `2.5` → `2`, `3.5` → `4`
+ * - `"up"` → away from zero: `2.1` → `3`, `-2.1` → `-3`
+ * - `"down"` → towards zero (truncate): `2.9` → `2`, `-2.9` → `-2`
+ * - `"ceil"` → towards positive infinity: `2.1` → `3`, `-2.9` → `-2`
+ * - `"floor"` → towards negative infinity: `2.9` → `2`, `-2.1` → `-3`
+ */
+export type RoundingMode = "halfUp" | "halfEven" | "up" | "down" | "ceil" | "floor";
+
+
+
+/**
+ * Rounds a value to `fractionDigits` fraction digits with the given rounding mode, exactly (big.js).
+ *
+ * Never throws: invalid values return `null`, invalid fraction digits fall back to `0`
+ * and unknown rounding modes to `"halfUp"`.
+ *
+ * @param {BigSource | null} [value] - Value to round.
+ * @param {number} [fractionDigits] - Number of fraction digits (0–100). Default: `0`.
+ * @param {RoundingMode} [roundingMode] - Rounding mode. Default: `"halfUp"`.
+ * @returns {Big | null} Rounded value, or `null` for invalid values.
+ *
+ * @example
+ * roundDecimal("2.345", 2)?.toString();              // "2.35"
+ * roundDecimal("2.345", 2, "halfEven")?.toString();  // "2.34"
+ * roundDecimal(-1.21, 1, "floor")?.toString();       // "-1.3"
+ * roundDecimal(-1.29, 1, "ceil")?.toString();        // "-1.2"
+ */
+export function roundDecimal(value: Big, fractionDigits?: number, roundingMode?: RoundingMode): Big;
+export function roundDecimal(value?: BigSource | null, fractionDigits?: number, roundingMode?: RoundingMode): Big | null;
+export function roundDecimal(value?: BigSource | null, fractionDigits?: number, roundingMode?: RoundingMode): Big | null {
+  const num = toBig(value);
+
+  if (!num) {
+    return null;
+  }
+
+  const digits = Number.isInteger(fractionDigits) ? Math.min(Math.max(fractionDigits!, 0), 100) : 0;
+
+  return num.round(digits, _toBigRoundingMode(num, roundingMode));
+}
+
+
+// big.js only rounds relative to zero — ceil/floor depend on the sign
+function _toBigRoundingMode(num: Big, roundingMode?: RoundingMode): Big.RoundingMode {
+  switch (roundingMode) {
+    case "halfEven": return Big.roundHalfEven;
+    case "up": return Big.roundUp;
+    case "down": return Big.roundDown;
+    case "ceil": return num.s < 0 ? Big.roundDown : Big.roundUp;
+    case "floor": return num.s < 0 ? Big.roundUp : Big.roundDown;
+    default: return Big.roundHalfUp;
+  }
+}
@@ -0,0 +1,316 @@
+import Big, { BigSource } from "big.js";
+import { toBig } from "./bigNumber";
+import { delocalizeNumberString, getLocaleNumberSymbols, localizeNumberString } from "./numberLocale";
+import { RoundingMode, roundDecimal } from "./rounding";
+
+
+/**
+ * Unit system of bytes and bits:
+ * - `"si"` → powers of 1000: kB, MB, GB (disk vendors, network speeds, macOS)
+ * - `"iec"` → powers of 1024: KiB, MiB, GiB (memory, Windows "MB")
+ */
+export type UnitSystem = "si" | "iec";
+
+
+/**
+ * Options shared by the unit formatters.
+ *
+ * @property fractionDigits - Maximum fraction digits; trailing zeros are dropped. Default: `1`.
+ * @property locale - Locale of the separators (e.g. `"de-DE"` → `"1,5 GB"`). Default: `"1,234.5"`.
+ * @property roundingMode - How to round to `fractionDigits`. Default: `"halfUp"`.
+ * @property returnEmptyInsteadOfNA - Returns `""` instead of `"N/A"` for invalid values.
+ */
+export interface IUnitFormatOptions {
+  fractionDigits?: number;
+  locale?: string;
+  roundingMode?: RoundingMode;
+  returnEmptyInsteadOfNA?: boolean;
+}
+
+
+/**
+ * Options for {@link formatBytes} and {@link formatBitrate}.
+ *
+ * @property system - `"si"` (default) or `"iec"`.
+ */
+export interface IDataUnitFormatOptions extends IUnitFormatOptions {
+  system?: UnitSystem;
+}
+
+
+/**
+ * Options for {@link formatScaledUnit} and {@link parseScaledUnit}.
+ *
+ * @property binary - Use binary prefixes (Ki, Mi…, powers of 1024) instead of SI prefixes (k, M…). Default: `false`.
+ * @property smallPrefixes - Also scale values below 1 down to m, µ, n, p (e.g. `0.0042 g` → `"4.2 mg"`). Default: `false`.
+ */
+export interface IScaledUnitOptions extends IUnitFormatOptions {
+  binary?: boolean;
+  smallPrefixes?: boolean;
+}
+
+
+/**
+ * Options for the unit parsers.
+ *
+ * @property locale - Locale of the separators in the input (e.g. `"de-DE"` → `"1,5 GB"`).
+ */
+export interface IUnitParseOptions {
+  locale?: string;
+}
+
+
+const _siPrefixes = ["", "k", "M", "G", "T", "P", "E", "Z", "Y"];
+const _iecPrefixes = ["", "Ki", "Mi", "Gi", "Ti", "Pi", "Ei", "Zi", "Yi"];
+const _smallPrefixes = ["m", "µ", "n", "p"];
+
+// Splits "1.5 GB" / "-3,2MiB" / "10 Mbit/s" into number and unit
+const _quantityRegex = /^\s*([^a-zA-Zµμ]*?)\s*([a-zA-Zµμ].*?)?\s*$/;
+
+
+
+/**
+ * Formats a number of bytes as a file size: `"1.5 MB"` (SI) or `"1.4 MiB"` (IEC).
+ *
+ * Rounding is done with big.js and carries into the next unit (`999999` → `"1 MB"`, not `"1000 kB"`).
+ * Use `roundingMode: "down"` for used space, so a nearly full disk never shows as full (`"999.9 MB"`, not `"1 GB"`).
+ *
+ * @param {BigSource | null} [bytes] - Number of bytes.
+ * @param {IDataUnitFormatOptions} [options] - Unit system, precision and locale.
+ * @returns {string} Formatted size, or `"N/A"` for invalid values.
+ *
+ * @example
+ * formatBytes(1500000);                                  // "1.5 MB"
+ * formatBytes(1500000, { system: "iec" });               // "1.4 MiB"
+ * formatBytes("1073741824", { system: "iec" });          // "1 GiB"
+ * formatBytes(1536, { locale: "de-DE", fractionDigits: 2 }); // "1,54 kB"
+ * formatBytes(512);                                      // "512 B"
+ */
+export function formatBytes(bytes?: BigSource | null, options: IDataUnitFormatOptions = {}): string {
+  const prefixes = options.system === "iec" ? _iecPrefixes : _siPrefixes;
+  const base = options.system === "iec" ? 1024 : 1000;
+
+  return _formatScaled(bytes, base, prefixes.map(p => `${p}B`), 0, options, true);
+}
+
+
+
+/**
+ * Parses a file size like `"1.5 GB"`, `"512 KiB"`, `"2 TB"` or `"100"` (bytes) into an exact number of bytes.
+ *
+ * SI units (kB, MB…) are powers of 1000, IEC units (KiB, MiB…) powers of 1024.
+ * Prefixes are case-insensitive (`"1.5 kB"`, `"1.5 KB"`) and `"bytes"` is accepted, but the `B` must be
+ * upper case: a lower-case `b` means bits (`"1 Gb"` → `null`, see {@link parseBitrate}).
+ *
+ * @param {string} value - Text to parse.
+ * @param {IUnitParseOptions} [options] - Locale of the separators.
+ * @returns {Big | null} Number of bytes, or `null` if the text is not a size.
+ *
+ * @example
+ * parseBytes("1.5 GB")?.toString();   // "1500000000"
+ * parseBytes("1.5 GiB")?.toString();  // "1610612736"
+ * parseBytes("1,5 MB", { locale: "de-DE" })?.toString(); // "1500000"
+ * parseBytes("1.5 Gb");               // null (gigabits)
+ */
+export function parseBytes(value: string, options: IUnitParseOptions = {}): Big | null {
+  const quantity = _parseQuantity(value, options.locale);
+
+  if (!quantity) {
+    return null;
+  }
+
+  const prefix = /^(.*?)(B|[Bb]ytes?)?$/.exec(quantity.unit)![1];
+
+  return _applyPrefix(quantity.amount, prefix, true);
+}
+
+
+
+/**
+ * Formats a bitrate in bits per second: `"12.5 Mbps"` (SI) or `"11.9 Mibps"` (IEC).
+ *
+ * @param {BigSource | null} [bitsPerSecond] - Bits per second. To format bytes per second, multiply by 8 first.
+ * @param {IDataUnitFormatOptions} [options] - Unit system, precision and locale.
+ * @returns {string} Formatted bitrate, or `"N/A"` for invalid values.
+ *
+ * @example
+ * formatBitrate(12500000);                   // "12.5 Mbps"
+ * formatBitrate(800);                        // "800 bps"
+ * formatBitrate("4000000000", { fractionDigits: 0 }); // "4 Gbps"
+ */
+export function formatBitrate(bitsPerSecond?: BigSource | null, options: IDataUnitFormatOptions = {}): string {
+  const prefixes = options.system === "iec" ? _iecPrefixes : _siPrefixes;
+  const base = options.system === "iec" ? 1024 : 1000;
+
+  return _formatScaled(bitsPerSecond, base, prefixes.map(p => `${p}bps`), 0, options, true);
+}
+
+
+
+/**
+ * Parses a bitrate like `"12.5 Mbps"`, `"100 Mbit/s"`, `"1 Gb/s"` or `"8 kbps"` into exact bits per second.
+ *
+ * A lower-case `b` means bits, an upper-case `B` bytes: byte rates like `"8 kBps"` or `"1 MiB/s"`
+ * are converted to bits (× 8).
+ *
+ * @param {string} value - Text to parse.
+ * @param {IUnitParseOptions} [options] - Locale of the separators.
+ * @returns {Big | null} Bits per second, or `null` if the text is not a bitrate.
+ *
+ * @example
+ * parseBitrate("12.5 Mbps")?.toString();   // "12500000"
+ * parseBitrate("1 Gbit/s")?.toString();    // "1000000000"
+ * parseBitrate("8 kBps")?.toString();      // "64000"
+ */
+export function parseBitrate(value: string, options: IUnitParseOptions = {}): Big | null {
+  const quantity = _parseQuantity(value, options.locale);
+
+  if (!quantity) {
+    return null;
+  }
+
+  const bits = /^(.*?)(?:bps|b\/s|[Bb]it\/s)$/.exec(quantity.unit);
+  const bytes = /^(.*?)(?:Bps|B\/s)$/.exec(quantity.unit);
+
+  if (bits) {
+    return _applyPrefix(quantity.amount, bits[1], true);
+  }
+
+  return bytes ? _applyPrefix(quantity.amount.times(8), bytes[1], true) : null;
+}
+
+
+
+/**
+ * Formats a value with a scaled SI (or binary) prefix for any unit: `"1.2 kW"`, `"3.4 GHz"`, `"4.2 mg"`.
+ *
+ * @param {BigSource | null} [value] - Value in base units.
+ * @param {string} unit - Unit symbol (e.g. `"W"`, `"Hz"`, `"g"`, `"req/s"`).
+ * @param {IScaledUnitOptions} [options] - Prefix style, precision and locale.
+ * @returns {string} Formatted value, or `"N/A"` for invalid values.
+ *
+ * @example
+ * formatScaledUnit(1234, "W");                                 // "1.2 kW"
+ * formatScaledUnit(2400000000, "Hz", { fractionDigits: 2 });   // "2.4 GHz"
+ * formatScaledUnit(0.0042, "g", { smallPrefixes: true });      // "4.2 mg"
+ * formatScaledUnit(1048576, "B", { binary: true });            // "1 MiB"
+ */
+export function formatScaledUnit(value: BigSource | null | undefined, unit: string, options: IScaledUnitOptions = {}): string {
+  const safeUnit = typeof unit === "string" ? unit.trim() : "";
+  const prefixes = options.binary ? _iecPrefixes : _siPrefixes;
+  const small = options.smallPrefixes && !options.binary ? _smallPrefixes : [];
+
+  return _formatScaled(value, options.binary ? 1024 : 1000, [...[...small].reverse(), ...prefixes].map(p => `${p}${safeUnit}`), small.length, options);
+}
+
+
+
+/**
+ * Parses a value with an optional SI or binary prefix for a given unit back into base units.
+ * Prefixes are case-sensitive here (`"m"` is milli, `"M"` is mega).
+ *
+ * @param {string} value - Text to parse (e.g. `"1.2 kW"`).
+ * @param {string} unit - Expected unit symbol (e.g. `"W"`).
+ * @param {IUnitParseOptions} [options] - Locale of the separators.
+ * @returns {Big | null} Value in base units, or `null` if the text does not match the unit.
+ *
+ * @example
+ * parseScaledUnit("1.2 kW", "W")?.toString();   // "1200"
+ * parseScaledUnit("4.2 mg", "g")?.toString();   // "0.0042"
+ * parseScaledUnit("3 MiB", "B")?.toString();    // "3145728"
+ */
+export function parseScaledUnit(value: string, unit: string, options: IUnitParseOptions = {}): Big | null {
+  const quantity = _parseQuantity(value, options.locale);
+  const safeUnit = typeof unit === "string" ? unit.trim() : "";
+
+  if (!quantity || !safeUnit || !quantity.unit.endsWith(safeUnit)) {
+    return null;
+  }
+
+  return _applyPrefix(quantity.amount, quantity.unit.slice(0, quantity.unit.length - safeUnit.length), false);
+}
+
+
+/**
+ * Formats `value` with the best unit from `units`, where `units[offset]` is the base unit
+ * and every next unit is `base` times larger.
+ * With `wholeBaseUnits`, values in the base unit are rounded to integers.
+ */
+function _formatScaled(value: BigSource | null | undefined, base: number, units: string[], offset: number, options: IUnitFormatOptions, wholeBaseUnits: boolean = false): string {
+  const num = toBig(value);
+
+  if (!num) {
+    return options.returnEmptyInsteadOfNA ? "" : "N/A";
+  }
+
+  const fractionDigits = Number.isInteger(options.fractionDigits) ? Math.min(Math.max(options.fractionDigits!, 0), 20) : 1;
+  const abs = num.abs();
+  let index = offset;
+
+  while (index < units.length - 1 && abs.gte(Big(base).pow(index - offset + 1))) {
+    index++;
+  }
+
+  while (index > 0 && !abs.eq(0) && abs.lt(Big(base).pow(index - offset))) {
+    index--;
+  }
+
+  // Bytes and bits are counted in whole units (no "0.5 B")
+  const round = (i: number) =>
+    roundDecimal(_scale(num, base, i - offset), wholeBaseUnits && i === offset ? 0 : fractionDigits, options.roundingMode);
+
+  let scaled = round(index);
+
+  // Rounding can reach the next unit (999.96 kB → 1000 kB → 1 MB, 999.6 B → 1000 B → 1 kB)
+  if (index < units.length - 1 && scaled.abs().gte(base)) {
+    index++;
+    scaled = round(index);
+  }
+
+  const numberString = localizeNumberString(scaled.eq(0) ? "0" : scaled.toString(), getLocaleNumberSymbols(options.locale));
+
+  return `${numberString} ${units[index]}`;
+}
+
+
+function _scale(num: Big, base: number, power: number): Big {
+  return power >= 0 ? num.div(Big(base).pow(power)) : num.times(Big(base).pow(-power));
+}
+
+
+function _parseQuantity(value: string, locale?: string): { amount: Big; unit: string; } | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = _quantityRegex.exec(value);
+  const plain = match ? delocalizeNumberString(match[1], getLocaleNumberSymbols(locale)) : null;
+  const amount = plain === null ? null : toBig(plain);
+
+  return amount ? { amount, unit: (match![2] ?? "").trim() } : null;
+}
+
+
+function _applyPrefix(amount: Big, prefix: string, isDataUnit: boolean): Big | null {
+  // Data units: "k"/"K" and "kb"/"KB" both mean kilo, "Ki" means kibi
+  const normalized = isDataUnit ? prefix.toUpperCase().replace(/I$/, "i") : prefix;
+  const prefixes = isDataUnit ? _siPrefixes.map(p => p.toUpperCase()) : _siPrefixes;
+
+  const siIndex = prefixes.indexOf(normalized);
+  const iecIndex = _iecPrefixes.indexOf(normalized);
+  const smallIndex = isDataUnit ? -1 : _smallPrefixes.indexOf(prefix === "u" || prefix === "μ" ? "µ" : prefix);
+
+  if (siIndex >= 0) {
+    return amount.times(Big(1000).pow(siIndex));
+  }
+
+  if (iecIndex >= 0) {
+    return amount.times(Big(1024).pow(iecIndex));
+  }
+
+  if (smallIndex >= 0) {
+    return amount.div(Big(1000).pow(smallIndex + 1));
+  }
+
+  return null;
+}
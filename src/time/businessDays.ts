@@ -0,0 +1,397 @@
+import { WeekDay } from "./dateTimePeriodParser";
+import { DateSource, parseValidDate } from "./timeFormatters";
+import { fromDayNumber, getZonedParts, resolveTimeZone, toDayNumber, zonedPartsToTimestamp } from "./zonedCalendar";
+
+
+/**
+ * A holiday definition. Fixed and one-off dates, movable feasts and custom resolvers are supported.
+ *
+ * - `fixed` → the same date every year (e.g. `{ type: "fixed", month: 12, day: 25 }`)
+ * - `date` → a single day (e.g. `{ type: "date", date: "2026-05-04" }` for a bridge day)
+ * - `easter` → days relative to Easter Sunday (e.g. `offset: -2` → Good Friday). `orthodox: true` uses the Orthodox Easter date.
+ * - `nthWeekday` → e.g. the 4th Thursday of November (`nth: 4`), or the last Monday of May (`nth: -1`)
+ * - `custom` → any rule; returns `"YYYY-MM-DD"` strings for the given year
+ *
+ * Months are 1-based. `name` is optional and only used by {@link getHolidays}.
+ */
+export type HolidayRule =
+  | { type: "fixed"; month: number; day: number; name?: string; }
+  | { type: "date"; date: string; name?: string; }
+  | { type: "easter"; offset?: number; orthodox?: boolean; name?: string; }
+  | { type: "nthWeekday"; month: number; weekday: WeekDay; nth: number; name?: string; }
+  | { type: "custom"; resolve: (year: number) => string[]; name?: string; };
+
+
+/**
+ * Working hours in `"HH:mm"` format. `end` is exclusive and must be later than `start`.
+ */
+export interface IWorkingHours {
+  start: string;
+  end: string;
+}
+
+
+/**
+ * Configuration of business days and working hours.
+ *
+ * @property timeZone - IANA time zone the calendar days and hours refer to. Default: the local time zone.
+ * @property weekend - Non-working days of the week. Default: `[0, 6]` (Sunday and Saturday).
+ * @property holidays - Holiday rules. Default: none.
+ * @property workingHours - Daily working hours. Default: `{ start: "09:00", end: "17:00" }`.
+ */
+export interface IBusinessCalendar {
+  timeZone?: string;
+  weekend?: WeekDay[];
+  holidays?: HolidayRule[];
+  workingHours?: IWorkingHours;
+}
+
+
+/**
+ * A resolved holiday.
+ *
+ * @property date - Date in `"YYYY-MM-DD"` format.
+ */
+export interface IHoliday {
+  date: string;
+  name?: string;
+}
+
+
+interface ICalendarDay {
+  year: number;
+  month: number;
+  day: number;
+}
+
+
+// Resolved holiday dates per year. Lives for one call only, so later changes to a calendar are always seen
+type HolidayCache = Map<number, Set<string>>;
+
+
+const _defaultWeekend: WeekDay[] = [0, 6];
+const _defaultWorkingHours: IWorkingHours = { start: "09:00", end: "17:00" };
+
+// Most days walked one by one — guards against calendars where (almost) no day is a business day
+// and against typos like year 20026
+const _MAX_DAY_STEPS = 100_000;
+
+const _timeRegex = /^([01]?\d|2[0-4]):([0-5]\d)$/;
+
+
+
+/**
+ * Lists the holidays of a calendar in the given year, sorted by date.
+ *
+ * @param {number} year - Full year (e.g. 2026).
+ * @param {IBusinessCalendar} [calendar] - Calendar with holiday rules.
+ * @returns {IHoliday[]} Holidays in that year.
+ *
+ * @example
+ * getHolidays(2026, { holidays: [{ type: "easter", offset: 1, orthodox: true, name: "Easter Monday" }] });
+ * // [{ date: "2026-04-13", name: "Easter Monday" }]
+ */
+export function getHolidays(year: number, calendar: IBusinessCalendar = {}): IHoliday[] {
+  if (!Number.isInteger(year)) {
+    return [];
+  }
+
+  return (calendar.holidays ?? [])
+    .flatMap(rule => _resolveRule(rule, year).map(date => ({ date, name: rule.name })))
+    .filter(h => h.date.startsWith(`${year}-`))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+
+
+/**
+ * Checks whether a moment falls on a business day (not a weekend day, not a holiday).
+ *
+ * @param {DateSource} source - The date to check.
+ * @param {IBusinessCalendar} [calendar] - Weekend, holidays and time zone.
+ * @returns {boolean} `true` for business days, `false` otherwise or for invalid dates.
+ */
+export function isBusinessDay(source: DateSource, calendar: IBusinessCalendar = {}): boolean {
+  const date = parseValidDate(source);
+
+  if (!date) {
+    return false;
+  }
+
+  const { year, month, day } = getZonedParts(date.getTime(), resolveTimeZone(calendar.timeZone));
+  return _isBusinessCalendarDay({ year, month, day }, calendar, new Map());
+}
+
+
+
+/**
+ * Counts business days between two dates, by calendar day in the calendar's time zone.
+ *
+ * The range is half-open: the start day is counted, the end day is not
+ * (Monday → Friday of the same week = 4). If `end` is before `start`, the result is negative.
+ *
+ * @param {DateSource} start - Start date.
+ * @param {DateSource} end - End date.
+ * @param {IBusinessCalendar} [calendar] - Weekend, holidays and time zone.
+ * @returns {number | null} Number of business days, or `null` if a date is invalid or the dates are
+ *   more than 100 000 days (about 270 years) apart.
+ *
+ * @example
+ * countBusinessDays("2026-12-21", "2026-12-28", { holidays: [{ type: "fixed", month: 12, day: 25 }] });
+ * // 4
+ */
+export function countBusinessDays(start: DateSource, end: DateSource, calendar: IBusinessCalendar = {}): number | null {
+  const startDate = parseValidDate(start);
+  const endDate = parseValidDate(end);
+
+  if (!startDate || !endDate) {
+    return null;
+  }
+
+  const timeZone = resolveTimeZone(calendar.timeZone);
+  const from = _toCalendarDay(startDate.getTime(), timeZone);
+  const to = _toCalendarDay(endDate.getTime(), timeZone);
+  const sign = _dayNumber(to) < _dayNumber(from) ? -1 : 1;
+  const [first, last] = sign > 0 ? [from, to] : [to, from];
+
+  if (_dayNumber(last) - _dayNumber(first) > _MAX_DAY_STEPS) {
+    return null;
+  }
+
+  const holidays: HolidayCache = new Map();
+  let count = 0;
+
+  for (let dayNumber = _dayNumber(first); dayNumber < _dayNumber(last); dayNumber++) {
+    if (_isBusinessCalendarDay(_fromDayNumber(dayNumber), calendar, holidays)) {
+      count++;
+    }
+  }
+
+  return sign * count;
+}
+
+
+
+/**
+ * Adds (or subtracts) business days to a date, keeping its wall-clock time.
+ *
+ * Weekend days and holidays are skipped. With `days = 0`, the date is returned unchanged.
+ *
+ * @param {DateSource} source - Start date.
+ * @param {number} days - Number of business days to add (negative to go back).
+ * @param {IBusinessCalendar} [calendar] - Weekend, holidays and time zone.
+ * @returns {Date | null} Resulting date, or `null` for invalid input or a calendar without business days.
+ *
+ * @example
+ * // Friday + 1 business day → Monday
+ * addBusinessDays("2026-01-09T10:00:00", 1); // Mon Jan 12 2026 10:00
+ */
+export function addBusinessDays(source: DateSource, days: number, calendar: IBusinessCalendar = {}): Date | null {
+  const date = parseValidDate(source);
+
+  if (!date || !Number.isInteger(days)) {
+    return null;
+  }
+
+  const timeZone = resolveTimeZone(calendar.timeZone);
+  const parts = getZonedParts(date.getTime(), timeZone);
+  const step = days < 0 ? -1 : 1;
+
+  const holidays: HolidayCache = new Map();
+  let dayNumber = _dayNumber(parts);
+  let remaining = Math.abs(days);
+
+  for (let i = 0; remaining > 0; i++) {
+    if (i >= _MAX_DAY_STEPS) {
+      return null;
+    }
+
+    dayNumber += step;
+
+    if (_isBusinessCalendarDay(_fromDayNumber(dayNumber), calendar, holidays)) {
+      remaining--;
+    }
+  }
+
+  return new Date(zonedPartsToTimestamp({ ...parts, ..._fromDayNumber(dayNumber) }, timeZone));
+}
+
+
+
+/**
+ * Checks whether a moment is inside working hours on a business day.
+ *
+ * @param {DateSource} source - The moment to check.
+ * @param {IBusinessCalendar} [calendar] - Working hours, weekend, holidays and time zone.
+ * @returns {boolean} `true` if the moment is inside working hours.
+ *
+ * @example
+ * isWithinWorkingHours(Date.now(), { timeZone: "Europe/Sofia", workingHours: { start: "08:30", end: "17:30" } });
+ */
+export function isWithinWorkingHours(source: DateSource, calendar: IBusinessCalendar = {}): boolean {
+  const date = parseValidDate(source);
+
+  if (!date) {
+    return false;
+  }
+
+  const p = getZonedParts(date.getTime(), resolveTimeZone(calendar.timeZone));
+  const { start, end } = calendar.workingHours ?? _defaultWorkingHours;
+  const startMinutes = _parseTime(start);
+  const endMinutes = _parseTime(end);
+
+  if (startMinutes === null || endMinutes === null || startMinutes >= endMinutes) {
+    return false;
+  }
+
+  const minutes = p.hour * 60 + p.minute;
+
+  return _isBusinessCalendarDay(p, calendar, new Map()) && minutes >= startMinutes && minutes < endMinutes;
+}
+
+
+function _isBusinessCalendarDay(day: ICalendarDay, calendar: IBusinessCalendar, holidays: HolidayCache): boolean {
+  const weekday = new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay() as WeekDay;
+
+  if ((calendar.weekend ?? _defaultWeekend).includes(weekday)) {
+    return false;
+  }
+
+  return !_getHolidaySet(day.year, calendar, holidays).has(_formatDay(day));
+}
+
+
+function _getHolidaySet(year: number, calendar: IBusinessCalendar, cache: HolidayCache): Set<string> {
+  let holidays = cache.get(year);
+
+  if (!holidays) {
+    holidays = new Set(getHolidays(year, calendar).map(h => h.date));
+    cache.set(year, holidays);
+  }
+
+  return holidays;
+}
+
+
+function _resolveRule(rule: HolidayRule, year: number): string[] {
+  switch (rule.type) {
+    case "fixed":
+      return [_formatDay({ year, month: rule.month, day: rule.day })];
+
+    case "date":
+      return [rule.date];
+
+    case "easter": {
+      const easter = rule.orthodox ? _orthodoxEaster(year) : _westernEaster(year);
+      return [_formatDay(_fromDayNumber(_dayNumber(easter) + (rule.offset ?? 0)))];
+    }
+
+    case "nthWeekday": {
+      const date = _nthWeekdayOfMonth(year, rule.month, rule.weekday, rule.nth);
+      return date ? [_formatDay(date)] : [];
+    }
+
+    case "custom":
+      try {
+        const dates = rule.resolve(year);
+        return Array.isArray(dates) ? dates.filter(d => typeof d === "string") : [];
+      }
+      catch {
+        return [];
+      }
+
+    default:
+      return [];
+  }
+}
+
+
+// Anonymous Gregorian algorithm
+function _westernEaster(year: number): ICalendarDay {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+  return { year, month, day };
+}
+
+
+// Meeus' Julian algorithm, converted to the Gregorian calendar
+function _orthodoxEaster(year: number): ICalendarDay {
+  const a = year % 4;
+  const b = year % 7;
+  const c = year % 19;
+  const d = (19 * c + 15) % 30;
+  const e = (2 * a + 4 * b - d + 34) % 7;
+  const month = Math.floor((d + e + 114) / 31);
+  const day = ((d + e + 114) % 31) + 1;
+  const julianToGregorian = Math.floor(year / 100) - Math.floor(year / 400) - 2;
+
+  return _fromDayNumber(_dayNumber({ year, month, day }) + julianToGregorian);
+}
+
+
+function _nthWeekdayOfMonth(year: number, month: number, weekday: number, nth: number): ICalendarDay | null {
+  if (!Number.isInteger(nth) || nth === 0) {
+    return null;
+  }
+
+  if (nth > 0) {
+    const firstWeekday = new Date(Date.UTC(year, month - 1, 1)).getUTCDay();
+    const day = 1 + ((weekday - firstWeekday + 7) % 7) + (nth - 1) * 7;
+    const date = _fromDayNumber(_dayNumber({ year, month, day }));
+
+    return date.month === month ? date : null;
+  }
+
+  const lastDay = new Date(Date.UTC(year, month, 0));
+  const day = lastDay.getUTCDate() - ((lastDay.getUTCDay() - weekday + 7) % 7) + (nth + 1) * 7;
+  const date = _fromDayNumber(_dayNumber({ year, month, day }));
+
+  return date.month === month ? date : null;
+}
+
+
+function _toCalendarDay(timestamp: number, timeZone?: string): ICalendarDay {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return { year, month, day };
+}
+
+
+function _dayNumber({ year, month, day }: ICalendarDay): number {
+  return toDayNumber(year, month, day);
+}
+
+
+function _fromDayNumber(dayNumber: number): ICalendarDay {
+  const { year, month, day } = fromDayNumber(dayNumber);
+  return { year, month, day };
+}
+
+
+function _formatDay({ year, month, day }: ICalendarDay): string {
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+
+function _parseTime(value: string): number | null {
+  const match = typeof value === "string" ? _timeRegex.exec(value.trim()) : null;
+
+  if (!match) {
+    return null;
+  }
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
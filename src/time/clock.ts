@@ -0,0 +1,167 @@
+import { DateSource, parseValidDate } from "./timeFormatters";
+
+
+/**
+ * Source of the current time for every function in the time module.
+ *
+ * @property now - Returns the current time as a UNIX timestamp in milliseconds.
+ * @property subscribe - Optional. Clocks that can jump (e.g. fake clocks) call the listener after
+ *   every manual change, so live helpers like `subscribeRelativeTime` can refresh immediately.
+ */
+export interface IClock {
+  now(): number;
+  subscribe?(listener: VoidFunction): VoidFunction;
+}
+
+
+/**
+ * A manually controlled clock for tests, stories and "as of" rendering.
+ */
+export interface IFakeClock extends IClock {
+  /** Jumps to the given moment. Invalid values are ignored. */
+  set(time: DateSource): void;
+  /** Moves the clock forward (or backward with a negative value) by `ms` milliseconds. */
+  advance(ms: number): void;
+}
+
+
+/**
+ * Options accepted by time functions that depend on the current time.
+ *
+ * @property now - Fixed reference moment. Takes precedence over `clock`.
+ * @property clock - Clock for this call only. Default: the global clock (see {@link setDefaultClock}).
+ */
+export interface IClockOptions {
+  now?: DateSource;
+  clock?: IClock;
+}
+
+
+/**
+ * The real clock, backed by `Date.now()`.
+ */
+export const systemClock: IClock = {
+  now: () => Date.now()
+};
+
+
+let _defaultClock: IClock = systemClock;
+const _defaultClockListeners = new Set<VoidFunction>();
+
+
+
+/**
+ * Replaces the global clock used by the whole time module.
+ * Call without arguments (or with `null`) to restore {@link systemClock}.
+ *
+ * @param {IClock | null} [clock] - New global clock.
+ *
+ * @example
+ * // Render every dashboard "as of" the end of last year
+ * setDefaultClock(createFakeClock("2025-12-31T23:59:59Z"));
+ *
+ * @example
+ * // Tests
+ * afterEach(() => setDefaultClock());
+ */
+export function setDefaultClock(clock?: IClock | null): void {
+  const next = clock && typeof clock.now === "function" ? clock : systemClock;
+
+  if (next !== _defaultClock) {
+    _defaultClock = next;
+    _defaultClockListeners.forEach(listener => listener());
+  }
+}
+
+
+
+/**
+ * Calls the listener every time {@link setDefaultClock} replaces the global clock,
+ * so live helpers that follow it (like `subscribeRelativeTime`) can refresh.
+ *
+ * @param {VoidFunction} listener - Called after the change.
+ * @returns {VoidFunction} Unsubscribe function.
+ */
+export function onDefaultClockChange(listener: VoidFunction): VoidFunction {
+  _defaultClockListeners.add(listener);
+  return () => { _defaultClockListeners.delete(listener); };
+}
+
+
+
+/**
+ * Returns the global clock used by the time module.
+ */
+export function getDefaultClock(): IClock {
+  return _defaultClock;
+}
+
+
+
+/**
+ * Resolves the current time from per-call options.
+ *
+ * Priority: valid `now` → `clock` → global clock.
+ *
+ * @param {IClockOptions} [options] - Reference moment and/or clock.
+ * @returns {number} UNIX timestamp in milliseconds.
+ */
+export function resolveNow(options: IClockOptions = {}): number {
+  const date = options.now === undefined ? null : parseValidDate(options.now);
+
+  if (date) {
+    return date.getTime();
+  }
+
+  const clock = options.clock && typeof options.clock.now === "function" ? options.clock : _defaultClock;
+  const now = clock.now();
+
+  return Number.isFinite(now) ? now : Date.now();
+}
+
+
+
+/**
+ * Creates a clock that only moves when you tell it to.
+ *
+ * @param {DateSource} [start=0] - Initial moment. Invalid values fall back to the UNIX epoch.
+ * @returns {IFakeClock} Fake clock instance.
+ *
+ * @example
+ * const clock = createFakeClock("2025-03-15T12:00:00Z");
+ *
+ * calculatePeriodBoundaries(PeriodLengthInDays.Today, { clock });
+ * clock.advance(60 * 60 * 1000);  // +1 hour
+ * formatRelativeTime("2025-03-15T12:00:00Z", { clock }); // "1 hour ago"
+ */
+export function createFakeClock(start: DateSource = 0): IFakeClock {
+  let current = parseValidDate(start)?.getTime() ?? 0;
+  const listeners = new Set<VoidFunction>();
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  return {
+    now: () => current,
+
+    set(time: DateSource) {
+      const date = parseValidDate(time);
+
+      if (date) {
+        current = date.getTime();
+        notify();
+      }
+    },
+
+    advance(ms: number) {
+      if (typeof ms === "number" && Number.isFinite(ms)) {
+        current += ms;
+        notify();
+      }
+    },
+
+    subscribe(listener: VoidFunction) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+}
@@ -0,0 +1,220 @@
+import { IClockOptions, resolveNow } from "./clock";
+import { IPeriodBoundaries } from "./dateTimePeriodParser";
+import { DateSource, parseValidDate } from "./timeFormatters";
+import { addZonedDays, getZonedParts, resolveTimeZone, startOfZonedDay, zonedPartsToTimestamp } from "./zonedCalendar";
+
+
+/**
+ * Validation error codes returned by {@link validateCustomPeriod}.
+ *
+ * - `"invalidStart"` / `"invalidEnd"` → the value is missing or not a valid date
+ * - `"beforeMinDate"` → the range ends before `minDate`
+ * - `"afterMaxDate"` → the range starts after `maxDate`
+ * - `"spanTooLong"` → the range is longer than `maxSpanDays` (only when `clamp` is `false`)
+ * - `"emptyRange"` → nothing is left of the range after clamping
+ */
+export type CustomPeriodErrorCode = "invalidStart" | "invalidEnd" | "beforeMinDate" | "afterMaxDate" | "spanTooLong" | "emptyRange";
+
+
+/**
+ * Adjustments applied to a valid range, so forms can explain why the dates changed.
+ *
+ * - `"swapped"` → start and end were entered in reverse order
+ * - `"clampedStart"` → start was moved forward to `minDate` (or to fit `maxSpanDays`)
+ * - `"clampedEnd"` → end was moved back to `maxDate`
+ */
+export type CustomPeriodAdjustment = "swapped" | "clampedStart" | "clampedEnd";
+
+
+/**
+ * A single validation error.
+ *
+ * @property code - What went wrong.
+ * @property field - Form field to attach the error to. `"range"` means the combination of both.
+ * @property limit - The violated limit: a timestamp for `minDate` / `maxDate`, a number of days for `maxSpanDays`.
+ */
+export interface ICustomPeriodError {
+  code: CustomPeriodErrorCode;
+  field: "start" | "end" | "range";
+  limit?: number;
+}
+
+
+/**
+ * Options for {@link validateCustomPeriod}.
+ *
+ * @property timeZone - IANA time zone used to snap the dates to day boundaries. Default: the local time zone.
+ * @property minDate - Earliest allowed moment (e.g. when data collection started).
+ * @property maxDate - Latest allowed moment.
+ * @property allowFuture - When `false`, the current time (`now` / `clock`) acts as an additional `maxDate`. Default: `true`.
+ * @property maxSpanDays - Maximum length of the range in calendar days.
+ * @property clamp - When `true` (default), ranges that cross a limit are trimmed to it.
+ *   When `false`, every crossed limit is reported as an error instead.
+ */
+export interface ICustomPeriodOptions extends IClockOptions {
+  timeZone?: string;
+  minDate?: DateSource;
+  maxDate?: DateSource;
+  allowFuture?: boolean;
+  maxSpanDays?: number;
+  clamp?: boolean;
+}
+
+
+export type CustomPeriodResult =
+  | { ok: true; boundaries: IPeriodBoundaries; adjustments: CustomPeriodAdjustment[]; }
+  | { ok: false; errors: ICustomPeriodError[]; };
+
+
+const _dateOnlyRegex = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+
+
+/**
+ * Validates a user-entered date range and turns it into period boundaries for `PeriodLengthInDays.Custom`.
+ *
+ * Steps:
+ * 1. Both values are parsed; reversed values are put in order. Date-only strings (`"2026-03-01"`)
+ *    are calendar days in `timeZone`, not UTC midnight.
+ * 2. Both are snapped to whole days in `timeZone`: `start` → midnight of its day,
+ *    `end` → midnight after its day, so the end date is **inclusive** for the user
+ *    and exclusive in the returned boundaries (like every other closed period).
+ * 3. The range is clamped to `minDate` / `maxDate` / `maxSpanDays` (or rejected when `clamp` is `false`).
+ *    Limits are applied as exact moments, so `maxDate: now` produces a "to date" range.
+ *    A span that is too long keeps its end and moves its start forward.
+ *
+ * Never throws — all problems are returned as structured errors.
+ *
+ * @param {DateSource} start - First day of the range.
+ * @param {DateSource} end - Last day of the range (inclusive).
+ * @param {ICustomPeriodOptions} [options] - Time zone, limits and clamping behaviour.
+ * @returns {CustomPeriodResult} `{ ok: true, boundaries, adjustments }` or `{ ok: false, errors }`.
+ *
+ * @example
+ * validateCustomPeriod("2026-03-10", "2026-03-01", { timeZone: "America/New_York" });
+ * // { ok: true, boundaries: { start: Date.parse("2026-03-01T05:00:00Z"), end: Date.parse("2026-03-11T04:00:00Z") }, adjustments: ["swapped"] }
+ *
+ * @example
+ * validateCustomPeriod(form.from, form.to, { allowFuture: false, maxSpanDays: 90, clamp: false });
+ * // { ok: false, errors: [{ code: "spanTooLong", field: "range", limit: 90 }] }
+ */
+export function validateCustomPeriod(start: DateSource, end: DateSource, options: ICustomPeriodOptions = {}): CustomPeriodResult {
+  const { allowFuture = true, clamp = true } = options;
+  const timeZone = resolveTimeZone(options.timeZone);
+  const errors: ICustomPeriodError[] = [];
+  const adjustments: CustomPeriodAdjustment[] = [];
+
+  const startDate = _parseDay(start, timeZone);
+  const endDate = _parseDay(end, timeZone);
+
+  if (startDate === null) {
+    errors.push({ code: "invalidStart", field: "start" });
+  }
+
+  if (endDate === null) {
+    errors.push({ code: "invalidEnd", field: "end" });
+  }
+
+  if (startDate === null || endDate === null) {
+    return { ok: false, errors };
+  }
+
+  let from = startDate;
+  let to = endDate;
+
+  if (from > to) {
+    [from, to] = [to, from];
+    adjustments.push("swapped");
+  }
+
+  from = startOfZonedDay(from, timeZone);
+  to = addZonedDays(startOfZonedDay(to, timeZone), 1, timeZone);
+
+  const minDate = _parseLimit(options.minDate);
+  const maxDate = Math.min(_parseLimit(options.maxDate) ?? Infinity, allowFuture ? Infinity : resolveNow(options));
+  const maxSpanDays = Number.isInteger(options.maxSpanDays) && options.maxSpanDays! > 0 ? options.maxSpanDays! : undefined;
+
+  // A range completely outside the limits cannot be clamped
+  if (minDate !== undefined && to <= minDate) {
+    errors.push({ code: "beforeMinDate", field: "end", limit: minDate });
+  }
+
+  if (from >= maxDate) {
+    errors.push({ code: "afterMaxDate", field: "start", limit: maxDate });
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+
+  // Picking the day of a limit itself is never an error, it is only trimmed to the exact moment
+  if (minDate !== undefined && from < minDate) {
+    const isSameDay = addZonedDays(from, 1, timeZone) > minDate;
+
+    _report(clamp || isSameDay, adjustments, errors, "clampedStart", { code: "beforeMinDate", field: "start", limit: minDate });
+    from = minDate;
+  }
+
+  if (to > maxDate) {
+    const isSameDay = addZonedDays(to, -1, timeZone) <= maxDate;
+
+    _report(clamp || isSameDay, adjustments, errors, "clampedEnd", { code: "afterMaxDate", field: "end", limit: maxDate });
+    to = maxDate;
+  }
+
+  if (maxSpanDays !== undefined) {
+    const earliestStart = addZonedDays(to, -maxSpanDays, timeZone);
+
+    if (from < earliestStart) {
+      _report(clamp, adjustments, errors, "clampedStart", { code: "spanTooLong", field: "range", limit: maxSpanDays });
+      from = earliestStart;
+    }
+  }
+
+  if (errors.length) {
+    return { ok: false, errors };
+  }
+
+  if (from >= to) {
+    return { ok: false, errors: [{ code: "emptyRange", field: "range" }] };
+  }
+
+  return { ok: true, boundaries: { start: from, end: to }, adjustments: [...new Set(adjustments)] };
+}
+
+
+// Records a crossed limit as an adjustment (clamping) or as an error (strict mode)
+function _report(clamp: boolean, adjustments: CustomPeriodAdjustment[], errors: ICustomPeriodError[], adjustment: CustomPeriodAdjustment, error: ICustomPeriodError): void {
+  if (clamp) {
+    adjustments.push(adjustment);
+  }
+  else {
+    errors.push(error);
+  }
+}
+
+
+// "YYYY-MM-DD" → midnight of that day in the time zone (Date would read it as UTC midnight)
+function _parseDay(value: DateSource, timeZone?: string): number | null {
+  const dateOnly = typeof value === "string" ? _dateOnlyRegex.exec(value.trim()) : null;
+
+  if (!dateOnly) {
+    return parseValidDate(value)?.getTime() ?? null;
+  }
+
+  const [year, month, day] = dateOnly.slice(1).map(Number);
+  const timestamp = zonedPartsToTimestamp({ year, month, day }, timeZone);
+  const parts = getZonedParts(timestamp, timeZone);
+
+  // Reject overflowing dates like 2026-02-30
+  return parts.year === year && parts.month === month && parts.day === day ? timestamp : null;
+}
+
+
+function _parseLimit(value?: DateSource): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+
+  return parseValidDate(value)?.getTime();
+}
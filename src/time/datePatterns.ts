@@ -0,0 +1,339 @@
+import { IClock, resolveNow } from "./clock";
+import { DateSource, parseValidDate } from "./timeFormatters";
+import { getDaysInMonth, getZoneOffset, getZonedParts, resolveTimeZone, zonedPartsToTimestamp } from "./zonedCalendar";
+
+
+/**
+ * Options for {@link formatDatePattern} and {@link parseDatePattern}.
+ *
+ * @property locale - Locale of month, weekday and AM/PM names. Default: `"en"`.
+ * @property timeZone - IANA time zone of the wall-clock values. Default: the local time zone.
+ * @property clock - Clock that supplies the default year when parsing. Default: the global clock.
+ */
+export interface IDatePatternOptions {
+  locale?: string;
+  timeZone?: string;
+  clock?: IClock;
+}
+
+
+interface ILocaleNames {
+  months: string[];
+  monthsShort: string[];
+  weekdays: string[];
+  weekdaysShort: string[];
+  meridiem: [string, string];
+}
+
+
+// Longer tokens first, so "MMMM" wins over "MM"
+const _tokenRegex = /\[([^\]]*)]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|H|hh|h|mm|m|ss|s|SSS|A|a|ZZ|Z/g;
+
+const _localeNamesCache = new Map<string, ILocaleNames>();
+
+
+
+/**
+ * Formats a date with a token pattern.
+ *
+ * Supported tokens:
+ * - `YYYY` 2026, `YY` 26
+ * - `M` 2, `MM` 02, `MMM` Feb, `MMMM` February (localized)
+ * - `D` 5, `DD` 05
+ * - `ddd` Thu, `dddd` Thursday (localized)
+ * - `H` 7, `HH` 07 (24-hour), `h` 7, `hh` 07 (12-hour)
+ * - `m`, `mm` minutes · `s`, `ss` seconds · `SSS` milliseconds
+ * - `A` AM/PM, `a` am/pm (localized)
+ * - `Z` +02:00, `ZZ` +0200 (UTC offset of the time zone)
+ * - `[text]` literal text, e.g. `"[Week of] MMM D"`
+ *
+ * @param {DateSource} source - A Date object, a date string, or a Unix timestamp (milliseconds since Epoch).
+ * @param {string} pattern - Token pattern (e.g. `"DD-MM-YYYY HH:mm:ss"`).
+ * @param {IDatePatternOptions} [options] - Locale and time zone.
+ * @returns {string | null} Formatted string, or `null` if the source is invalid.
+ *
+ * @example
+ * formatDatePattern("2026-02-25T14:24:39Z", "DD-MM-YYYY HH:mm:ss", { timeZone: "UTC" });
+ * // "25-02-2026 14:24:39"
+ *
+ * @example
+ * formatDatePattern(Date.now(), "ddd, MMM D", { locale: "bg" });
+ * // "ср, фев 25"
+ */
+export function formatDatePattern(source: DateSource, pattern: string, options: IDatePatternOptions = {}): string | null {
+  const date = parseValidDate(source);
+
+  if (!date || typeof pattern !== "string") {
+    return null;
+  }
+
+  const { locale = "en" } = options;
+  const timeZone = resolveTimeZone(options.timeZone);
+  const timestamp = date.getTime();
+  const p = getZonedParts(timestamp, timeZone);
+  const names = _getLocaleNames(locale);
+
+  const hours12 = p.hour % 12 || 12;
+  const meridiem = names.meridiem[p.hour < 12 ? 0 : 1];
+
+  return pattern.replace(_tokenRegex, (token, literal?: string) => {
+    if (literal !== undefined) {
+      return literal;
+    }
+
+    switch (token) {
+      case "YYYY": return String(p.year).padStart(4, "0");
+      case "YY": return _pad(p.year % 100);
+      case "MMMM": return names.months[p.month - 1];
+      case "MMM": return names.monthsShort[p.month - 1];
+      case "MM": return _pad(p.month);
+      case "M": return String(p.month);
+      case "DD": return _pad(p.day);
+      case "D": return String(p.day);
+      case "dddd": return names.weekdays[p.weekday];
+      case "ddd": return names.weekdaysShort[p.weekday];
+      case "HH": return _pad(p.hour);
+      case "H": return String(p.hour);
+      case "hh": return _pad(hours12);
+      case "h": return String(hours12);
+      case "mm": return _pad(p.minute);
+      case "m": return String(p.minute);
+      case "ss": return _pad(p.second);
+      case "s": return String(p.second);
+      case "SSS": return String(p.millisecond).padStart(3, "0");
+      case "A": return meridiem;
+      case "a": return meridiem.toLowerCase();
+      case "ZZ": return _formatOffset(getZoneOffset(timestamp, timeZone), "");
+      case "Z": return _formatOffset(getZoneOffset(timestamp, timeZone), ":");
+      default: return token;
+    }
+  });
+}
+
+
+
+/**
+ * Strictly parses a string written in a token pattern back into a `Date`.
+ *
+ * Uses the same tokens as {@link formatDatePattern}. The whole string must match the pattern,
+ * and the parsed values must form a real date — `"30-02-2026"`, a weekday that does not
+ * match the date, or a time skipped by a DST jump are rejected. Name tokens (`MMM`, `dddd`, `A` ...) are case-insensitive.
+ *
+ * Missing parts default to: current year, January, 1st, 00:00:00.000.
+ * `YY` maps 00–68 to 2000–2068 and 69–99 to 1969–1999.
+ * If the pattern has `Z`/`ZZ`, the parsed offset wins over `options.timeZone`.
+ *
+ * @param {string} value - The string to parse.
+ * @param {string} pattern - Token pattern (e.g. `"YYYY/MM/DD"`).
+ * @param {IDatePatternOptions} [options] - Locale and time zone.
+ * @returns {Date | null} Parsed date, or `null` if the string does not match the pattern.
+ *
+ * @example
+ * parseDatePattern("25-02-2026 16:24:39", "DD-MM-YYYY HH:mm:ss");
+ * // Date for 2026-02-25 16:24:39 local time
+ *
+ * @example
+ * parseDatePattern("2026/02/30", "YYYY/MM/DD"); // null
+ */
+export function parseDatePattern(value: string, pattern: string, options: IDatePatternOptions = {}): Date | null {
+  if (typeof value !== "string" || typeof pattern !== "string") {
+    return null;
+  }
+
+  const { locale = "en" } = options;
+  const timeZone = resolveTimeZone(options.timeZone);
+  const names = _getLocaleNames(locale);
+  const tokens: string[] = [];
+
+  let source = "";
+  let lastIndex = 0;
+
+  for (const match of pattern.matchAll(_tokenRegex)) {
+    source += _escapeRegex(pattern.slice(lastIndex, match.index));
+    lastIndex = match.index! + match[0].length;
+
+    if (match[1] !== undefined) {
+      source += _escapeRegex(match[1]);
+      continue;
+    }
+
+    tokens.push(match[0]);
+    source += `(${_tokenSource(match[0], names)})`;
+  }
+
+  source += _escapeRegex(pattern.slice(lastIndex));
+
+  const match = new RegExp(`^${source}$`, "i").exec(value.trim());
+
+  if (!match) {
+    return null;
+  }
+
+  const parts = { year: getZonedParts(resolveNow({ clock: options.clock }), timeZone).year, month: 1, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 };
+  let pm: boolean | null = null;
+  let offset: number | null = null;
+  let weekday: number | null = null;
+  let is12Hour = false;
+
+  tokens.forEach((token, i) => {
+    const raw = match[i + 1];
+
+    switch (token) {
+      case "YYYY": parts.year = Number(raw); break;
+      case "YY": parts.year = Number(raw) + (Number(raw) < 69 ? 2000 : 1900); break;
+      case "MMMM": parts.month = _indexOfName(names.months, raw) + 1; break;
+      case "MMM": parts.month = _indexOfName(names.monthsShort, raw) + 1; break;
+      case "MM": case "M": parts.month = Number(raw); break;
+      case "DD": case "D": parts.day = Number(raw); break;
+      case "dddd": weekday = _indexOfName(names.weekdays, raw); break;
+      case "ddd": weekday = _indexOfName(names.weekdaysShort, raw); break;
+      case "HH": case "H": parts.hour = Number(raw); break;
+      case "hh": case "h": parts.hour = Number(raw); is12Hour = true; break;
+      case "mm": case "m": parts.minute = Number(raw); break;
+      case "ss": case "s": parts.second = Number(raw); break;
+      case "SSS": parts.millisecond = Number(raw); break;
+      case "A": case "a": pm = _indexOfName(names.meridiem, raw) === 1; break;
+      case "ZZ": case "Z": offset = _parseOffset(raw); break;
+    }
+  });
+
+  // Strict mode → every part must be in range (rejects Feb 30, 25:00, 13 PM ...)
+  if (
+    parts.month < 1 || parts.month > 12 ||
+    parts.day < 1 || parts.day > getDaysInMonth(parts.year, parts.month) ||
+    parts.hour > (is12Hour ? 12 : 23) || (is12Hour && parts.hour < 1) ||
+    parts.minute > 59 || parts.second > 59
+  ) {
+    return null;
+  }
+
+  if (weekday !== null && new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay() !== weekday) {
+    return null;
+  }
+
+  if (pm !== null) {
+    parts.hour = (parts.hour % 12) + (pm ? 12 : 0);
+  }
+
+  if (offset !== null) {
+    return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond) - offset);
+  }
+
+  const timestamp = zonedPartsToTimestamp(parts, timeZone);
+  const check = getZonedParts(timestamp, timeZone);
+
+  // Wall-clock time skipped by a DST jump does not exist
+  if (check.day !== parts.day || check.hour !== parts.hour || check.minute !== parts.minute) {
+    return null;
+  }
+
+  return new Date(timestamp);
+}
+
+
+function _tokenSource(token: string, names: ILocaleNames): string {
+  switch (token) {
+    case "YYYY": return "\\d{4}";
+    case "YY": case "MM": case "DD": case "HH": case "hh": case "mm": case "ss": return "\\d{2}";
+    case "M": case "D": case "H": case "h": case "m": case "s": return "\\d{1,2}";
+    case "SSS": return "\\d{3}";
+    case "MMMM": return _namesSource(names.months);
+    case "MMM": return _namesSource(names.monthsShort);
+    case "dddd": return _namesSource(names.weekdays);
+    case "ddd": return _namesSource(names.weekdaysShort);
+    case "A": case "a": return _namesSource(names.meridiem);
+    case "ZZ": return "Z|[+-]\\d{4}";
+    case "Z": return "Z|[+-]\\d{2}:\\d{2}";
+    default: return _escapeRegex(token);
+  }
+}
+
+
+function _getLocaleNames(locale: string): ILocaleNames {
+  const cached = _localeNamesCache.get(locale);
+
+  if (cached) {
+    return cached;
+  }
+
+  let resolvedLocale = "en";
+
+  try {
+    resolvedLocale = Intl.getCanonicalLocales(locale)[0] ?? "en";
+  }
+  catch { }
+
+  // Month names are read next to a day, otherwise some locales (e.g. "bg") fall back to numbers
+  const monthName = (month: "long" | "short", date: number) =>
+    new Intl.DateTimeFormat(resolvedLocale, { day: "numeric", month, timeZone: "UTC" })
+      .formatToParts(date)
+      .find(part => part.type === "month")?.value ?? "";
+
+  const weekdayName = (weekday: "long" | "short", date: number) =>
+    new Intl.DateTimeFormat(resolvedLocale, { weekday, timeZone: "UTC" }).format(date);
+
+  const dayPeriod = (hour: number) =>
+    new Intl.DateTimeFormat(resolvedLocale, { hour: "numeric", hour12: true, timeZone: "UTC" })
+      .formatToParts(Date.UTC(2000, 0, 1, hour))
+      .find(part => part.type === "dayPeriod")?.value ?? (hour < 12 ? "AM" : "PM");
+
+  const months = Array.from({ length: 12 }, (_, i) => Date.UTC(2000, i, 15));
+  const weekdays = Array.from({ length: 7 }, (_, i) => Date.UTC(2000, 0, 2 + i));  // Jan 2, 2000 is a Sunday
+
+  const names: ILocaleNames = {
+    months: months.map(d => monthName("long", d)),
+    monthsShort: months.map(d => {
+      const short = monthName("short", d);
+      return /^\d+$/.test(short) ? monthName("long", d).slice(0, 3) : short;  // Numeric-only locales → abbreviate the long name
+    }),
+    weekdays: weekdays.map(d => weekdayName("long", d)),
+    weekdaysShort: weekdays.map(d => weekdayName("short", d)),
+    meridiem: [dayPeriod(1), dayPeriod(13)]
+  };
+
+  _localeNamesCache.set(locale, names);
+  return names;
+}
+
+
+function _namesSource(names: string[]): string {
+  return [...names]
+    .sort((a, b) => b.length - a.length)
+    .map(_escapeRegex)
+    .join("|");
+}
+
+
+function _indexOfName(names: string[], value: string): number {
+  return names.findIndex(name => name.toLowerCase() === value.toLowerCase());
+}
+
+
+function _formatOffset(offsetMs: number, separator: string): string {
+  const sign = offsetMs < 0 ? "-" : "+";
+  const totalMinutes = Math.round(Math.abs(offsetMs) / 60000);
+
+  return `${sign}${_pad(Math.floor(totalMinutes / 60))}${separator}${_pad(totalMinutes % 60)}`;
+}
+
+
+function _parseOffset(value: string): number {
+  if (value.toUpperCase() === "Z") {
+    return 0;
+  }
+
+  const digits = value.replace(":", "");
+  const minutes = Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+
+  return (digits[0] === "-" ? -1 : 1) * minutes * 60000;
+}
+
+
+function _escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+
+function _pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
@@ -1,4 +1,7 @@
+import { Range0To } from "../types";
 import { PeriodLengthInDays } from "./dateTimePeriods";
+import { IClockOptions, resolveNow } from "./clock";
+import { DAY_MS, addZonedDays, addZonedMonths, getDaysInMonth, getZonedParts, resolveTimeZone, startOfZonedDay, zonedPartsToTimestamp } from "./zonedCalendar";
 
 
 export interface IPeriodBoundaries {
@@ -7,105 +10,368 @@ export interface IPeriodBoundaries {
 }
 
 
+/**
+ * Day of the week, 0-based (0 = Sunday, 1 = Monday, ... 6 = Saturday).
+ */
+export type WeekDay = Range0To<6>;
+
+
+/**
+ * Options for {@link calculatePeriodBoundaries}.
+ *
+ * @property timeZone - IANA time zone (e.g. `"Europe/Sofia"`, `"America/New_York"`).
+ *   Calendar boundaries (midnights, week and month starts) are resolved in this zone.
+ *   Invalid or missing values fall back to the runtime's local time zone.
+ * @property now - Reference moment used instead of the current time. Invalid values are ignored.
+ * @property clock - Clock used for this call instead of the global one (see `setDefaultClock`).
+ * @property weekStartsOn - First day of the week for `ThisWeek` and `LastWeek`. Default: `1` (Monday).
+ */
+export interface IPeriodBoundariesOptions extends IClockOptions {
+  timeZone?: string;
+  weekStartsOn?: WeekDay;
+}
+
+
+/**
+ * How the comparison window is chosen by {@link calculatePreviousPeriodBoundaries}.
+ *
+ * - `"previous"` → the period right before the current one (e.g. This Month → last month).
+ * - `"previousYear"` → the same calendar dates one year earlier.
+ */
+export type PreviousPeriodMode = "previous" | "previousYear";
+
+
+/**
+ * Options for {@link calculatePreviousPeriodBoundaries}.
+ *
+ * @property mode - Comparison mode. Default: `"previous"`.
+ * @property custom - Current boundaries of a `Custom` period. Required to compare custom ranges.
+ */
+export interface IPreviousPeriodOptions extends IPeriodBoundariesOptions {
+  mode?: PreviousPeriodMode;
+  custom?: IPeriodBoundaries;
+}
+
+
+// Rolling windows measured in calendar days back from now
+const _rollingPeriods = [
+  PeriodLengthInDays.Three,
+  PeriodLengthInDays.Seven,
+  PeriodLengthInDays.Thirty,
+  PeriodLengthInDays.Fifty,
+  PeriodLengthInDays.ThreeMonths,
+];
+
+
+// Closed calendar periods and their length, used to step back to the previous one
+const _closedPeriodSteps: Partial<Record<PeriodLengthInDays, { days?: number; months?: number; }>> = {
+  [PeriodLengthInDays.Yesterday]: { days: 1 },
+  [PeriodLengthInDays.LastWeek]: { days: 7 },
+  [PeriodLengthInDays.LastMonth]: { months: 1 },
+  [PeriodLengthInDays.LastQuarter]: { months: 3 },
+  [PeriodLengthInDays.ThisYear]: { months: 12 },
+  [PeriodLengthInDays.LastYear]: { months: 12 },
+};
+
+
 /**
  * Calculates the start and end timestamps (in milliseconds) for a given fixed period.
  *
  * The function converts relative periods (e.g. "Today", "This Week", "Last 7 Days")
- * into concrete UNIX timestamps, based on the current time.
+ * into concrete UNIX timestamps, based on the current time (`options.now`, `options.clock`
+ * or the global clock, in that order).
+ *
+ * Boundaries are taken from real calendar midnights in the requested time zone,
+ * so periods that cross a DST change are 1 hour shorter or longer than `N * 24h`.
  *
  * Supported periods (from {@link PeriodLengthInDays}):
- * - `One`, `Seven`, `Thirty`, `ThreeMonths` → last X days from now
+ * - `One` → exactly 24 hours back from now
+ * - `Three`, `Seven`, `Thirty`, `Fifty`, `ThreeMonths` → same wall-clock time X calendar days ago
  * - `Today` → from midnight to now
- * - `ThisWeek` → from the beginning of the week (Monday) to now
- * - `ThisMonth` → from the start of the month to now
- * - `Custom` → returns `{ start: now, end: now }`
+ * - `ThisWeek` → from the beginning of the week (`weekStartsOn`, Monday by default) to now
+ * - `ThisMonth` → from midnight of the 1st day of the month to now
+ * - `ThisQuarter` → from the start of the calendar quarter to now
+ * - `YearToDate` → from January 1st to now
+ *
+ * Closed calendar periods (`end` is the exclusive start of the next period):
+ * - `Yesterday` → whole previous day
+ * - `LastWeek` → whole previous week
+ * - `LastMonth` → whole previous month
+ * - `LastQuarter` → whole previous quarter
+ * - `ThisYear` → whole current year (January 1st to January 1st of next year)
+ * - `LastYear` → whole previous year
+ *
+ * Special periods:
+ * - `Custom` → returns `{ start: now, end: now }` (use `validateCustomPeriod` for user-entered ranges)
  * - `AllTime` → returns `{ start: 0, end: now }`
  *
  * @param {PeriodLengthInDays} fixedPeriod - Enum value defining which time period to calculate.
+ * @param {IPeriodBoundariesOptions} [options] - Optional time zone, reference "now" / clock and first day of the week.
  * @returns {IPeriodBoundaries} Object with numeric `start` and `end` timestamps in milliseconds.
  *
  * @example
  * // Get the start and end timestamps for the last 7 days
  * const { start, end } = calculatePeriodBoundaries(PeriodLengthInDays.Seven);
  * console.log(new Date(start), new Date(end));
+ *
+ * @example
+ * // "This Month" for a store in New York, as of a fixed moment
+ * calculatePeriodBoundaries(PeriodLengthInDays.ThisMonth, {
+ *   timeZone: "America/New_York",
+ *   now: "2025-03-15T12:00:00Z"
+ * });
+ * // → { start: Date.parse("2025-03-01T05:00:00Z"), end: Date.parse("2025-03-15T12:00:00Z") }
+ *
+ * @example
+ * // Last full week, with weeks starting on Sunday
+ * calculatePeriodBoundaries(PeriodLengthInDays.LastWeek, { weekStartsOn: 0 });
  */
-export function calculatePeriodBoundaries(fixedPeriod: PeriodLengthInDays): IPeriodBoundaries {
-  let now = _nowInSeconds();
-  let result: IPeriodBoundaries = { start: 0, end: now };  // Matches All Time
-
-  // One, Seven, 30 days or Three months
-  if (
-    [
-      PeriodLengthInDays.One,
-      PeriodLengthInDays.Three,
-      PeriodLengthInDays.Seven,
-      PeriodLengthInDays.Thirty,
-      PeriodLengthInDays.Fifty,
-      PeriodLengthInDays.ThreeMonths,
-    ].includes(fixedPeriod)
-  ) {
-    result.end = now;
-    result.start = now - fixedPeriod * 24 * 60 * 60;
+export function calculatePeriodBoundaries(fixedPeriod: PeriodLengthInDays, options: IPeriodBoundariesOptions = {}): IPeriodBoundaries {
+  const timeZone = resolveTimeZone(options.timeZone);
+  const now = resolveNow(options);
+  const weekStartsOn = _resolveWeekStart(options.weekStartsOn);
+  const result: IPeriodBoundaries = { start: 0, end: now };  // Matches All Time
+
+  // Last 24 hours
+  if (fixedPeriod === PeriodLengthInDays.One) {
+    result.start = now - DAY_MS;
+  }
+
+  // Three, Seven, 30, 50 days or Three months
+  else if (_rollingPeriods.includes(fixedPeriod)) {
+    result.start = addZonedDays(now, -fixedPeriod, timeZone);
   }
 
   // Today
   else if (fixedPeriod === PeriodLengthInDays.Today) {
-    result.end = now;
-    result.start = now - _todaySeconds();
+    result.start = startOfZonedDay(now, timeZone);
+  }
+
+  // Yesterday
+  else if (fixedPeriod === PeriodLengthInDays.Yesterday) {
+    result.end = startOfZonedDay(now, timeZone);
+    result.start = addZonedDays(result.end, -1, timeZone);
   }
 
   // This Week
   else if (fixedPeriod === PeriodLengthInDays.ThisWeek) {
-    result.end = now;
-    result.start = now - _thisWeekSeconds();
+    result.start = _startOfWeek(now, weekStartsOn, timeZone);
+  }
+
+  // Last Week
+  else if (fixedPeriod === PeriodLengthInDays.LastWeek) {
+    result.end = _startOfWeek(now, weekStartsOn, timeZone);
+    result.start = addZonedDays(result.end, -7, timeZone);
   }
 
   // This Month
   else if (fixedPeriod === PeriodLengthInDays.ThisMonth) {
-    result.end = now;
-    result.start = now - _thisMonthSeconds();
+    result.start = _startOfMonth(now, 0, timeZone);
+  }
+
+  // Last Month
+  else if (fixedPeriod === PeriodLengthInDays.LastMonth) {
+    result.start = _startOfMonth(now, -1, timeZone);
+    result.end = _startOfMonth(now, 0, timeZone);
+  }
+
+  // This Quarter
+  else if (fixedPeriod === PeriodLengthInDays.ThisQuarter) {
+    result.start = _startOfQuarter(now, 0, timeZone);
+  }
+
+  // Last Quarter
+  else if (fixedPeriod === PeriodLengthInDays.LastQuarter) {
+    result.start = _startOfQuarter(now, -1, timeZone);
+    result.end = _startOfQuarter(now, 0, timeZone);
+  }
+
+  // This Year (whole calendar year)
+  else if (fixedPeriod === PeriodLengthInDays.ThisYear) {
+    result.start = _startOfYear(now, 0, timeZone);
+    result.end = _startOfYear(now, 1, timeZone);
+  }
+
+  // Last Year
+  else if (fixedPeriod === PeriodLengthInDays.LastYear) {
+    result.start = _startOfYear(now, -1, timeZone);
+    result.end = _startOfYear(now, 0, timeZone);
+  }
+
+  // Year to Date
+  else if (fixedPeriod === PeriodLengthInDays.YearToDate) {
+    result.start = _startOfYear(now, 0, timeZone);
   }
 
   // Custom Period
   else if (fixedPeriod === PeriodLengthInDays.Custom) {
-    result.end = now;
     result.start = now;
   }
 
   // All Time
   else if (fixedPeriod === PeriodLengthInDays.AllTime) {
-    result.end = now;
     result.start = 0;
   }
 
-  return { start: result.start * 1000, end: result.end * 1000 };
+  return result;
 }
 
 
-function _todaySeconds(): number {
-  let now = _nowInSeconds();
-  let midnight = new Date().setHours(0, 0, 0, 0) / 1000; //Today - midnight
 
-  return now - midnight;
+/**
+ * Calculates the comparison window for a period, for "this period vs. previous period" deltas.
+ *
+ * The returned window is calendar-aligned to the current one returned by {@link calculatePeriodBoundaries}
+ * with the same options: it usually covers the same elapsed span, except where shorter months
+ * clamp it as listed below.
+ *
+ * `"previous"` mode:
+ * - `One` → the 24 hours before the current window
+ * - `Three`, `Seven`, `Thirty`, `Fifty`, `ThreeMonths` → the X calendar days before the current window
+ * - `Today` → yesterday, from midnight to the same wall-clock time as now
+ * - `ThisWeek` → last week, from its first day to the same weekday and time as now
+ * - `ThisMonth` → last month, from the 1st to the same day of month and time as now.
+ *   If last month is shorter (e.g. now is March 31), the window ends at the end of last month,
+ *   so it covers the whole of February.
+ * - `ThisQuarter`, `YearToDate` → the same elapsed span of the previous quarter / year.
+ *   Days missing in shorter months are clamped to the last day of the month.
+ * - `Yesterday`, `LastWeek`, `LastMonth`, `LastQuarter`, `ThisYear`, `LastYear` → the whole
+ *   calendar period right before the current one
+ * - `Custom` → the window of equal length right before `options.custom`
+ *
+ * `"previousYear"` mode shifts both boundaries of the current window one calendar year back.
+ * February 29 maps to February 28.
+ *
+ * @param {PeriodLengthInDays} fixedPeriod - Enum value defining the current period.
+ * @param {IPreviousPeriodOptions} [options] - Time zone, reference "now" / clock, mode and custom boundaries.
+ * @returns {IPeriodBoundaries | null} Previous window in milliseconds, or `null` when there is nothing
+ *   to compare with (`AllTime`, or `Custom` without valid `options.custom`).
+ *
+ * @example
+ * // Now: 2025-03-31 10:00 (local)
+ * calculatePreviousPeriodBoundaries(PeriodLengthInDays.ThisMonth);
+ * // → 2025-02-01 00:00 ... 2025-03-01 00:00
+ *
+ * @example
+ * calculatePreviousPeriodBoundaries(PeriodLengthInDays.Seven, { mode: "previousYear" });
+ * // → the same 7 days, one year earlier
+ */
+export function calculatePreviousPeriodBoundaries(fixedPeriod: PeriodLengthInDays, options: IPreviousPeriodOptions = {}): IPeriodBoundaries | null {
+  const timeZone = resolveTimeZone(options.timeZone);
+  const now = resolveNow(options);
+  const { mode = "previous", custom, weekStartsOn } = options;
+
+  if (fixedPeriod === PeriodLengthInDays.AllTime) {
+    return null;
+  }
+
+  let current: IPeriodBoundaries;
+
+  if (fixedPeriod === PeriodLengthInDays.Custom) {
+    if (!custom || !Number.isFinite(custom.start) || !Number.isFinite(custom.end) || custom.start > custom.end) {
+      return null;
+    }
+
+    current = custom;
+  }
+  else {
+    current = calculatePeriodBoundaries(fixedPeriod, { timeZone, now, weekStartsOn });
+  }
+
+  // Same period last year
+  if (mode === "previousYear") {
+    return {
+      start: addZonedMonths(current.start, -12, timeZone),
+      end: addZonedMonths(current.end, -12, timeZone)
+    };
+  }
+
+  // Last 24 hours and Custom → fixed length windows
+  if (fixedPeriod === PeriodLengthInDays.One || fixedPeriod === PeriodLengthInDays.Custom) {
+    return { start: current.start - (current.end - current.start), end: current.start };
+  }
+
+  // Three, Seven, 30, 50 days or Three months
+  if (_rollingPeriods.includes(fixedPeriod)) {
+    return { start: addZonedDays(current.start, -fixedPeriod, timeZone), end: current.start };
+  }
+
+  // Closed calendar periods
+  const step = _closedPeriodSteps[fixedPeriod];
+
+  if (step) {
+    const start = step.months
+      ? addZonedMonths(current.start, -step.months, timeZone)
+      : addZonedDays(current.start, -(step.days ?? 0), timeZone);
+
+    return { start, end: current.start };
+  }
+
+  // Today
+  if (fixedPeriod === PeriodLengthInDays.Today) {
+    return { start: addZonedDays(current.start, -1, timeZone), end: addZonedDays(now, -1, timeZone) };
+  }
+
+  // This Week
+  if (fixedPeriod === PeriodLengthInDays.ThisWeek) {
+    return { start: addZonedDays(current.start, -7, timeZone), end: addZonedDays(now, -7, timeZone) };
+  }
+
+  // This Month
+  if (fixedPeriod === PeriodLengthInDays.ThisMonth) {
+    const p = getZonedParts(now, timeZone);
+    const start = addZonedMonths(current.start, -1, timeZone);
+
+    // Last month is too short to hold the same day → take the whole month
+    if (p.day > getDaysInMonth(p.year, p.month - 1)) {
+      return { start, end: current.start };
+    }
+
+    return { start, end: zonedPartsToTimestamp({ ...p, month: p.month - 1 }, timeZone) };
+  }
+
+  // This Quarter
+  if (fixedPeriod === PeriodLengthInDays.ThisQuarter) {
+    return { start: addZonedMonths(current.start, -3, timeZone), end: addZonedMonths(now, -3, timeZone) };
+  }
+
+  // Year to Date
+  if (fixedPeriod === PeriodLengthInDays.YearToDate) {
+    return { start: addZonedMonths(current.start, -12, timeZone), end: addZonedMonths(now, -12, timeZone) };
+  }
+
+  return null;
+}
+
+
+function _resolveWeekStart(weekStartsOn?: number): number {
+  return Number.isInteger(weekStartsOn) && weekStartsOn! >= 0 && weekStartsOn! <= 6 ? weekStartsOn! : 1;
 }
 
 
-function _thisWeekSeconds(): number {
-  let dayOfWeek = new Date().getDay() || 7; // adjust when day is sunday
-  let timeInSeconds = (dayOfWeek - 1) * 24 * 60 * 60 + _todaySeconds();
+function _startOfWeek(now: number, weekStartsOn: number, timeZone?: string): number {
+  const { weekday } = getZonedParts(now, timeZone);
+  const daysSinceWeekStart = (weekday - weekStartsOn + 7) % 7;
+
+  return addZonedDays(startOfZonedDay(now, timeZone), -daysSinceWeekStart, timeZone);
+}
+
 
-  return timeInSeconds;
+function _startOfMonth(now: number, monthOffset: number, timeZone?: string): number {
+  const { year, month } = getZonedParts(now, timeZone);
+  return zonedPartsToTimestamp({ year, month: month + monthOffset, day: 1 }, timeZone);
 }
 
 
-function _thisMonthSeconds(): number {
-  let dayOfMonth = new Date().getDate();
-  let timeInSeconds = (dayOfMonth - 1) * 24 * 60 * 60 + _todaySeconds();
+function _startOfQuarter(now: number, quarterOffset: number, timeZone?: string): number {
+  const { year, month } = getZonedParts(now, timeZone);
+  const quarterFirstMonth = month - ((month - 1) % 3);
 
-  return timeInSeconds;
+  return zonedPartsToTimestamp({ year, month: quarterFirstMonth + quarterOffset * 3, day: 1 }, timeZone);
 }
 
 
-function _nowInSeconds() {
-  return Date.now() / 1000;
-}
\ No newline at end of file
+function _startOfYear(now: number, yearOffset: number, timeZone?: string): number {
+  const { year } = getZonedParts(now, timeZone);
+  return zonedPartsToTimestamp({ year: year + yearOffset, month: 1, day: 1 }, timeZone);
+}
@@ -13,26 +13,15 @@ export enum PeriodLengthInDays {
   Thirty = 30,
   Fifty = 50,
   ThisWeek = 77,
+  LastWeek = 78,
   ThisMonth = 33,
+  LastMonth = 34,
   ThreeMonths = 90,
-  Today = 11
-}
-
-
-export const getPeriodOptions = (excludePeriods: PeriodLengthInDays[] = []) => {
-  const options: IPeriodOptions[] = [
-    { text: "Today", value: PeriodLengthInDays.Today },
-    { text: "Last 24 hours", value: PeriodLengthInDays.One },
-    { text: "Last 3 days", value: PeriodLengthInDays.Three },
-    { text: "This Week", value: PeriodLengthInDays.ThisWeek },
-    { text: "Last 7 Days", value: PeriodLengthInDays.Seven },
-    { text: "This Month", value: PeriodLengthInDays.ThisMonth },
-    { text: "Last 30 Days", value: PeriodLengthInDays.Thirty },
-    { text: "Last 50 Days", value: PeriodLengthInDays.Fifty },
-    { text: "Last 3 Months", value: PeriodLengthInDays.ThreeMonths },
-    { text: "All Time", value: PeriodLengthInDays.AllTime },
-    { text: "Custom", value: PeriodLengthInDays.Custom }
-  ];
-
-  return options.filter(o => !excludePeriods.includes(o.value));
-};
\ No newline at end of file
+  ThisQuarter = 91,
+  LastQuarter = 92,
+  ThisYear = 365,
+  LastYear = 366,
+  YearToDate = 367,
+  Today = 11,
+  Yesterday = 12
+}
\ No newline at end of file
@@ -0,0 +1,267 @@
+import { DateSource, parseValidDate } from "./timeFormatters";
+
+
+/**
+ * Output style of {@link formatDuration}.
+ *
+ * - `"short"` → `"1h 23m 05s"`
+ * - `"clock"` → `"01:23:05"`
+ * - `"long"` → localized words: `"1 hour, 23 minutes, and 5 seconds"`
+ * - `"iso"` → ISO 8601: `"PT1H23M5S"`
+ */
+export type DurationFormat = "short" | "clock" | "long" | "iso";
+
+
+/**
+ * A duration in milliseconds, or a start/end pair of dates.
+ */
+export type DurationSource = number | { start: DateSource; end: DateSource; } | null;
+
+
+/**
+ * Options for {@link formatDuration}.
+ *
+ * @property format - Output style. Default: `"short"`.
+ * @property locale - Target locale for the `"long"` style. Default: `"en"`.
+ * @property returnEmptyInsteadOfNA - Return `""` instead of `"N/A"` for invalid sources.
+ */
+export interface IFormatDurationOptions {
+  format?: DurationFormat;
+  locale?: string;
+  returnEmptyInsteadOfNA?: boolean;
+}
+
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+// Accepted unit names for human-entered durations
+const _unitAliases: Record<string, number> = {
+  ms: 1, msec: 1, msecs: 1, millisecond: 1, milliseconds: 1,
+  s: SECOND_MS, sec: SECOND_MS, secs: SECOND_MS, second: SECOND_MS, seconds: SECOND_MS,
+  m: MINUTE_MS, min: MINUTE_MS, mins: MINUTE_MS, minute: MINUTE_MS, minutes: MINUTE_MS,
+  h: HOUR_MS, hr: HOUR_MS, hrs: HOUR_MS, hour: HOUR_MS, hours: HOUR_MS,
+  d: DAY_MS, day: DAY_MS, days: DAY_MS,
+  w: WEEK_MS, wk: WEEK_MS, wks: WEEK_MS, week: WEEK_MS, weeks: WEEK_MS
+};
+
+const _isoDurationRegex = /^([+-])?P(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i;
+const _clockRegex = /^([+-])?(\d+):([0-5]\d)(?::([0-5]\d))?(?:\.(\d{1,3}))?$/;
+const _humanTokenRegex = /(\d+(?:[.,]\d+)?)\s*([a-z]+)/gi;
+const _humanSeparatorRegex = /^(?:[\s,]|and)*$/i;
+
+
+
+/**
+ * Formats a time span (video length, session time, uptime ...) into a readable string.
+ *
+ * The span is truncated to whole seconds, except for the `"iso"` style
+ * which keeps milliseconds as fractional seconds (`"PT5.25S"`).
+ * Days are shown as a separate unit in `"short"`, `"long"` and `"iso"`, while
+ * `"clock"` keeps counting hours (`"26:00:00"`). Negative spans get a leading `"-"`.
+ *
+ * @param {DurationSource} source - Duration in milliseconds, or `{ start, end }` dates.
+ * @param {IFormatDurationOptions} [options] - Output style and locale.
+ * @returns {string} Formatted duration, or `"N/A"` if the source is invalid.
+ *
+ * @example
+ * formatDuration(5_005_000);                        // "1h 23m 25s"
+ * formatDuration(5_005_000, { format: "clock" });   // "01:23:25"
+ * formatDuration(5_005_000, { format: "iso" });     // "PT1H23M25S"
+ * formatDuration(5_005_000, { format: "long" });    // "1 hour, 23 minutes, and 25 seconds"
+ * formatDuration(5_005_000, { format: "long", locale: "de" });
+ * // "1 Stunde, 23 Minuten und 25 Sekunden"
+ *
+ * @example
+ * formatDuration({ start: session.startedAt, end: session.endedAt });
+ */
+export function formatDuration(source: DurationSource, options: IFormatDurationOptions = {}): string {
+  const { format = "short", locale = "en", returnEmptyInsteadOfNA } = options;
+  const duration = _resolveDuration(source);
+
+  if (duration === null) {
+    return returnEmptyInsteadOfNA ? "" : "N/A";
+  }
+
+  const sign = duration < 0 ? "-" : "";
+  const abs = Math.abs(duration);
+
+  const days = Math.floor(abs / DAY_MS);
+  const hours = Math.floor((abs % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((abs % HOUR_MS) / MINUTE_MS);
+  const seconds = Math.floor((abs % MINUTE_MS) / SECOND_MS);
+  const milliseconds = abs % SECOND_MS;
+
+  switch (format) {
+    case "clock": {
+      const totalHours = days * 24 + hours;
+      return `${sign}${_pad(totalHours)}:${_pad(minutes)}:${_pad(seconds)}`;
+    }
+
+    case "iso": {
+      const fractionalSeconds = milliseconds ? `${seconds}.${String(milliseconds).padStart(3, "0").replace(/0+$/, "")}` : String(seconds);
+      const datePart = days ? `${days}D` : "";
+      const timePart = [
+        hours ? `${hours}H` : "",
+        minutes ? `${minutes}M` : "",
+        seconds || milliseconds ? `${fractionalSeconds}S` : ""
+      ].join("");
+
+      if (!datePart && !timePart) {
+        return "PT0S";
+      }
+
+      return `${sign}P${datePart}${timePart ? `T${timePart}` : ""}`;
+    }
+
+    case "long": {
+      const nonZero = ([["day", days], ["hour", hours], ["minute", minutes], ["second", seconds]] as const)
+        .filter(([, value]) => value > 0);
+      const parts = nonZero.length ? nonZero : [["second", 0] as const];
+
+      try {
+        const words = parts.map(([unit, value]) =>
+          new Intl.NumberFormat(locale, { style: "unit", unit, unitDisplay: "long" }).format(value)
+        );
+
+        return sign + new Intl.ListFormat(locale, { style: "long", type: "conjunction" }).format(words);
+      }
+      catch {
+        return formatDuration(duration, { format: "short" });
+      }
+    }
+
+    default: {  // short
+      const units = [[days, "d"], [hours, "h"], [minutes, "m"], [seconds, "s"]] as const;
+      const firstNonZero = units.findIndex(([value]) => value > 0);
+
+      if (firstNonZero < 0) {
+        return "0s";
+      }
+
+      return sign + units
+        .slice(firstNonZero)
+        .map(([value, suffix], i) => `${i === 0 ? value : _pad(value)}${suffix}`)
+        .join(" ");
+    }
+  }
+}
+
+
+
+/**
+ * Parses a duration string into milliseconds.
+ *
+ * Accepted formats:
+ * - ISO 8601: `"PT1H23M5S"`, `"P2DT3H"`, `"PT0.5S"`, `"P1W"` (years and months are rejected as ambiguous)
+ * - Clock: `"01:23:05"` (hours:minutes:seconds), `"23:05"` (minutes:seconds), optional `.mmm`
+ * - Human: `"1h 23m 05s"`, `"90m"`, `"1.5 hours"`, `"2 days, 3 hours and 10 minutes"`
+ *
+ * Every format may start with `"-"` for negative spans. Each unit may appear only once.
+ *
+ * @param {string | null | undefined} value - The string to parse.
+ * @returns {number | null} Duration in milliseconds, or `null` if the string is not a valid duration.
+ *
+ * @example
+ * parseDuration("1h 23m 05s");  // 4985000
+ * parseDuration("01:23:05");    // 4985000
+ * parseDuration("PT1H23M5S");   // 4985000
+ * parseDuration("1 hour");      // 3600000
+ * parseDuration("soon");        // null
+ */
+export function parseDuration(value: string | null | undefined): number | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+
+  const input = value.trim();
+
+  const iso = _isoDurationRegex.exec(input);
+  if (iso) {
+    const [, sign, weeks, days, hours, minutes, seconds] = iso;
+
+    if (![weeks, days, hours, minutes, seconds].some(Boolean) || /T$/i.test(input)) {
+      return null;
+    }
+
+    const total = _num(weeks) * WEEK_MS + _num(days) * DAY_MS + _num(hours) * HOUR_MS + _num(minutes) * MINUTE_MS + _num(seconds) * SECOND_MS;
+    return _signed(sign, total);
+  }
+
+  const clock = _clockRegex.exec(input);
+  if (clock) {
+    const [, sign, first, second, third, fraction] = clock;
+    const millis = fraction ? Number(fraction.padEnd(3, "0")) : 0;
+
+    const total = third === undefined
+      ? Number(first) * MINUTE_MS + Number(second) * SECOND_MS + millis
+      : Number(first) * HOUR_MS + Number(second) * MINUTE_MS + Number(third) * SECOND_MS + millis;
+
+    return _signed(sign, total);
+  }
+
+  return _parseHumanDuration(input);
+}
+
+
+function _parseHumanDuration(input: string): number | null {
+  const sign = /^[+-]/.test(input) ? input[0] : undefined;
+  const body = sign ? input.slice(1) : input;
+
+  const usedUnits = new Set<number>();
+  let total = 0;
+  let rest = body;
+
+  for (const [token, amount, unitName] of body.matchAll(_humanTokenRegex)) {
+    const unitMs = _unitAliases[unitName.toLowerCase()];
+
+    if (!unitMs || usedUnits.has(unitMs)) {
+      return null;
+    }
+
+    usedUnits.add(unitMs);
+    total += _num(amount) * unitMs;
+    rest = rest.replace(token, " ");
+  }
+
+  if (!usedUnits.size || !_humanSeparatorRegex.test(rest)) {
+    return null;
+  }
+
+  return _signed(sign, total);
+}
+
+
+function _resolveDuration(source: DurationSource): number | null {
+  if (typeof source === "number") {
+    return Number.isFinite(source) ? Math.round(source) : null;
+  }
+
+  if (!source || typeof source !== "object") {
+    return null;
+  }
+
+  const start = parseValidDate(source.start);
+  const end = parseValidDate(source.end);
+
+  return start && end ? end.getTime() - start.getTime() : null;
+}
+
+
+function _num(value?: string): number {
+  return value ? Number(value.replace(",", ".")) : 0;
+}
+
+
+function _signed(sign: string | undefined, total: number): number {
+  const rounded = Math.round(total);
+  return sign === "-" && rounded ? -rounded : rounded;
+}
+
+
+function _pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
@@ -1,3 +1,13 @@
 export * from "./dateTimePeriodParser";
 export * from "./dateTimePeriods";
-export * from "./timeFormatters";
\ No newline at end of file
+export * from "./timeFormatters";
+export * from "./periodCodec";
+export * from "./periodLabels";
+export * from "./relativeTimeFormatter";
+export * from "./durationFormatters";
+export * from "./datePatterns";
+export * from "./timeBuckets";
+export * from "./clock";
+export * from "./businessDays";
+export * from "./recurrence";
+export * from "./customPeriod";
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { IPeriodBoundaries } from "./dateTimePeriodParser";
+import { PeriodLengthInDays } from "./dateTimePeriods";
+import { parseValidDate } from "./timeFormatters";
+import { getZonedParts, resolveTimeZone, startOfZonedDay, zonedPartsToTimestamp } from "./zonedCalendar";
+
+
+/**
+ * A period picked by the user, as stored in a URL.
+ *
+ * @property period - Selected period.
+ * @property custom - Boundaries (in milliseconds) when `period` is `Custom`.
+ */
+export interface IPeriodSelection {
+  period: PeriodLengthInDays;
+  custom?: IPeriodBoundaries;
+}
+
+
+/**
+ * Options for {@link serializePeriod} and {@link parsePeriod}.
+ *
+ * @property timeZone - IANA time zone used to read and write date-only custom ranges
+ *   (e.g. `"2025-01-01"` means midnight in this zone). Defaults to the local time zone.
+ */
+export interface IPeriodCodecOptions {
+  timeZone?: string;
+}
+
+
+// Compact URL tokens for every fixed period
+const _periodTokens: Record<Exclude<PeriodLengthInDays, PeriodLengthInDays.Custom>, string> = {
+  [PeriodLengthInDays.AllTime]: "all",
+  [PeriodLengthInDays.One]: "24h",
+  [PeriodLengthInDays.Three]: "3d",
+  [PeriodLengthInDays.Seven]: "7d",
+  [PeriodLengthInDays.Thirty]: "30d",
+  [PeriodLengthInDays.Fifty]: "50d",
+  [PeriodLengthInDays.ThreeMonths]: "90d",
+  [PeriodLengthInDays.Today]: "today",
+  [PeriodLengthInDays.Yesterday]: "yesterday",
+  [PeriodLengthInDays.ThisWeek]: "this-week",
+  [PeriodLengthInDays.LastWeek]: "last-week",
+  [PeriodLengthInDays.ThisMonth]: "this-month",
+  [PeriodLengthInDays.LastMonth]: "last-month",
+  [PeriodLengthInDays.ThisQuarter]: "this-quarter",
+  [PeriodLengthInDays.LastQuarter]: "last-quarter",
+  [PeriodLengthInDays.ThisYear]: "this-year",
+  [PeriodLengthInDays.LastYear]: "last-year",
+  [PeriodLengthInDays.YearToDate]: "ytd"
+};
+
+const _CUSTOM_TOKEN = "custom";
+const _RANGE_SEPARATOR = "..";
+
+// Reverse lookup, plus a few forgiving aliases
+const _tokenToPeriod = new Map<string, PeriodLengthInDays>([
+  ...Object.entries(_periodTokens).map(([period, token]) => [token, Number(period)] as [string, PeriodLengthInDays]),
+  ["1d", PeriodLengthInDays.One],
+  ["year-to-date", PeriodLengthInDays.YearToDate]
+]);
+
+const _dateOnlyRegex = /^(\d{4})-(\d{2})-(\d{2})$/;
+const _isoDateTimeRegex = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/i;
+
+
+
+/**
+ * Converts a period (or a custom start/end pair) into a compact, URL-friendly string.
+ *
+ * Output formats:
+ * - Fixed periods → short tokens: `"24h"`, `"7d"`, `"today"`, `"this-month"`, `"last-quarter"`, `"ytd"`, `"all"`
+ * - Custom range at midnights → date-only pair: `"2025-01-01..2025-02-01"`
+ * - Custom range with times → ISO pair: `"2025-01-01T08:30:00.000Z..2025-01-01T17:00:00.000Z"`
+ * - Custom without valid boundaries → `"custom"`
+ *
+ * The result contains only URL-safe characters (or ones `encodeURIComponent` handles),
+ * so it can be passed directly to `urlQueryStringFromObject`.
+ *
+ * @param {PeriodLengthInDays | IPeriodSelection} selection - Period value or period with custom boundaries.
+ * @param {IPeriodCodecOptions} [options] - Time zone for date-only custom ranges.
+ * @returns {string} Serialized period.
+ *
+ * @example
+ * serializePeriod(PeriodLengthInDays.Seven);  // "7d"
+ *
+ * @example
+ * const query = urlQueryStringFromObject({
+ *   period: serializePeriod({ period: PeriodLengthInDays.Custom, custom: { start, end } })
+ * });
+ * // "?period=2025-01-01..2025-02-01"
+ */
+export function serializePeriod(selection: PeriodLengthInDays | IPeriodSelection, options: IPeriodCodecOptions = {}): string {
+  const { period, custom } = typeof selection === "number" ? { period: selection, custom: undefined } : selection;
+
+  if (period !== PeriodLengthInDays.Custom) {
+    return _periodTokens[period] ?? _CUSTOM_TOKEN;
+  }
+
+  if (!custom || !Number.isFinite(custom.start) || !Number.isFinite(custom.end) || custom.start > custom.end) {
+    return _CUSTOM_TOKEN;
+  }
+
+  const timeZone = resolveTimeZone(options.timeZone);
+  const isDateOnly = [custom.start, custom.end].every(ts => startOfZonedDay(ts, timeZone) === ts);
+
+  const stringify = (ts: number) => isDateOnly
+    ? _formatDateOnly(ts, timeZone)
+    : new Date(ts).toISOString();
+
+  return `${stringify(custom.start)}${_RANGE_SEPARATOR}${stringify(custom.end)}`;
+}
+
+
+
+/**
+ * Parses a string produced by {@link serializePeriod} back into a period selection.
+ *
+ * This function never throws. Unknown tokens, malformed or impossible dates
+ * (e.g. `"2025-02-30"`) and reversed ranges all return the `fallback`.
+ * Input is trimmed and case-insensitive.
+ *
+ * @param {string | null | undefined} value - Serialized period (e.g. from `URLSearchParams.get()`).
+ * @param {PeriodLengthInDays | IPeriodSelection} [fallback=PeriodLengthInDays.Today] - Returned for invalid input.
+ * @param {IPeriodCodecOptions} [options] - Time zone for date-only custom ranges.
+ * @returns {IPeriodSelection} Parsed selection or the fallback.
+ *
+ * @example
+ * parsePeriod("this-month");
+ * // → { period: PeriodLengthInDays.ThisMonth }
+ *
+ * @example
+ * parsePeriod(new URLSearchParams(location.search).get("period"), PeriodLengthInDays.Seven);
+ *
+ * @example
+ * parsePeriod("2025-01-01..2025-02-01", undefined, { timeZone: "Europe/Sofia" });
+ * // → { period: PeriodLengthInDays.Custom, custom: { start: ..., end: ... } }
+ */
+export function parsePeriod(
+  value: string | null | undefined,
+  fallback: PeriodLengthInDays | IPeriodSelection = PeriodLengthInDays.Today,
+  options: IPeriodCodecOptions = {}
+): IPeriodSelection {
+  const safeFallback: IPeriodSelection = typeof fallback === "number" ? { period: fallback } : fallback;
+
+  if (typeof value !== "string" || !value.trim()) {
+    return safeFallback;
+  }
+
+  const normalized = value.trim().toLowerCase();
+  const period = _tokenToPeriod.get(normalized);
+
+  if (period !== undefined) {
+    return { period };
+  }
+
+  if (normalized === _CUSTOM_TOKEN) {
+    return { period: PeriodLengthInDays.Custom };
+  }
+
+  const range = normalized.split(_RANGE_SEPARATOR);
+
+  if (range.length !== 2) {
+    return safeFallback;
+  }
+
+  const timeZone = resolveTimeZone(options.timeZone);
+  const start = _parseRangeEdge(range[0], timeZone);
+  const end = _parseRangeEdge(range[1], timeZone);
+
+  if (start === null || end === null || start > end) {
+    return safeFallback;
+  }
+
+  return { period: PeriodLengthInDays.Custom, custom: { start, end } };
+}
+
+
+function _formatDateOnly(timestamp: number, timeZone?: string): string {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return `${String(year).padStart(4, "0")}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+
+function _parseRangeEdge(value: string, timeZone?: string): number | null {
+  const dateOnly = _dateOnlyRegex.exec(value);
+
+  if (dateOnly) {
+    const [year, month, day] = dateOnly.slice(1).map(Number);
+    const timestamp = zonedPartsToTimestamp({ year, month, day }, timeZone);
+
+    // Reject overflowing dates like 2025-02-30
+    return _formatDateOnly(timestamp, timeZone) === value ? timestamp : null;
+  }
+
+  if (_isoDateTimeRegex.test(value)) {
+    return parseValidDate(value.toUpperCase())?.getTime() ?? null;
+  }
+
+  return null;
+}
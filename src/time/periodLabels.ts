@@ -0,0 +1,256 @@
+import { IPeriodOptions, PeriodLengthInDays } from "./dateTimePeriods";
+
+
+/**
+ * Plural variants of a label, keyed by `Intl.PluralRules` category.
+ * `{count}` is replaced with the locale-formatted number.
+ *
+ * @example
+ * { one: "Last {count} Day", other: "Last {count} Days" }
+ */
+export type PluralLabel = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string; };
+
+
+/**
+ * Translated labels for all periods in {@link PeriodLengthInDays}.
+ *
+ * @property fixed - Labels of periods without a number (e.g. "Today", "This Month").
+ * @property lastHours - Rolling hour windows (`One` → 24 hours).
+ * @property lastDays - Rolling day windows (`Three`, `Seven`, `Thirty`, `Fifty`).
+ * @property lastMonths - Rolling month windows (`ThreeMonths` → 3 months).
+ */
+export interface IPeriodLabelPack {
+  fixed: Partial<Record<PeriodLengthInDays, string>>;
+  lastHours: PluralLabel;
+  lastDays: PluralLabel;
+  lastMonths: PluralLabel;
+}
+
+
+/**
+ * Partial label pack accepted by {@link registerPeriodLabels}.
+ * Missing entries fall back to the base language and then to English.
+ */
+export type PeriodLabelPackOverrides = {
+  [K in keyof IPeriodLabelPack]?: Partial<IPeriodLabelPack[K]>;
+};
+
+
+const _DEFAULT_LOCALE = "en";
+
+
+// Rolling windows → which plural label they use and the number shown
+const _numericPeriods: Partial<Record<PeriodLengthInDays, { label: Exclude<keyof IPeriodLabelPack, "fixed">; count: number; }>> = {
+  [PeriodLengthInDays.One]: { label: "lastHours", count: 24 },
+  [PeriodLengthInDays.Three]: { label: "lastDays", count: 3 },
+  [PeriodLengthInDays.Seven]: { label: "lastDays", count: 7 },
+  [PeriodLengthInDays.Thirty]: { label: "lastDays", count: 30 },
+  [PeriodLengthInDays.Fifty]: { label: "lastDays", count: 50 },
+  [PeriodLengthInDays.ThreeMonths]: { label: "lastMonths", count: 3 },
+};
+
+
+// Built-in label packs, keyed by lower-cased locale
+const _labelPacks = new Map<string, PeriodLabelPackOverrides>([
+  ["en", {
+    fixed: {
+      [PeriodLengthInDays.Today]: "Today",
+      [PeriodLengthInDays.Yesterday]: "Yesterday",
+      [PeriodLengthInDays.ThisWeek]: "This Week",
+      [PeriodLengthInDays.LastWeek]: "Last Week",
+      [PeriodLengthInDays.ThisMonth]: "This Month",
+      [PeriodLengthInDays.LastMonth]: "Last Month",
+      [PeriodLengthInDays.ThisQuarter]: "This Quarter",
+      [PeriodLengthInDays.LastQuarter]: "Last Quarter",
+      [PeriodLengthInDays.YearToDate]: "Year to Date",
+      [PeriodLengthInDays.ThisYear]: "This Year",
+      [PeriodLengthInDays.LastYear]: "Last Year",
+      [PeriodLengthInDays.AllTime]: "All Time",
+      [PeriodLengthInDays.Custom]: "Custom"
+    },
+    lastHours: { one: "Last {count} Hour", other: "Last {count} Hours" },
+    lastDays: { one: "Last {count} Day", other: "Last {count} Days" },
+    lastMonths: { one: "Last {count} Month", other: "Last {count} Months" }
+  }],
+
+  ["bg", {
+    fixed: {
+      [PeriodLengthInDays.Today]: "Днес",
+      [PeriodLengthInDays.Yesterday]: "Вчера",
+      [PeriodLengthInDays.ThisWeek]: "Тази седмица",
+      [PeriodLengthInDays.LastWeek]: "Миналата седмица",
+      [PeriodLengthInDays.ThisMonth]: "Този месец",
+      [PeriodLengthInDays.LastMonth]: "Миналия месец",
+      [PeriodLengthInDays.ThisQuarter]: "Това тримесечие",
+      [PeriodLengthInDays.LastQuarter]: "Миналото тримесечие",
+      [PeriodLengthInDays.YearToDate]: "От началото на годината",
+      [PeriodLengthInDays.ThisYear]: "Тази година",
+      [PeriodLengthInDays.LastYear]: "Миналата година",
+      [PeriodLengthInDays.AllTime]: "За целия период",
+      [PeriodLengthInDays.Custom]: "Избран период"
+    },
+    lastHours: { one: "Последния {count} час", other: "Последните {count} часа" },
+    lastDays: { one: "Последния {count} ден", other: "Последните {count} дни" },
+    lastMonths: { one: "Последния {count} месец", other: "Последните {count} месеца" }
+  }],
+
+  ["de", {
+    fixed: {
+      [PeriodLengthInDays.Today]: "Heute",
+      [PeriodLengthInDays.Yesterday]: "Gestern",
+      [PeriodLengthInDays.ThisWeek]: "Diese Woche",
+      [PeriodLengthInDays.LastWeek]: "Letzte Woche",
+      [PeriodLengthInDays.ThisMonth]: "Dieser Monat",
+      [PeriodLengthInDays.LastMonth]: "Letzter Monat",
+      [PeriodLengthInDays.ThisQuarter]: "Dieses Quartal",
+      [PeriodLengthInDays.LastQuarter]: "Letztes Quartal",
+      [PeriodLengthInDays.YearToDate]: "Seit Jahresbeginn",
+      [PeriodLengthInDays.ThisYear]: "Dieses Jahr",
+      [PeriodLengthInDays.LastYear]: "Letztes Jahr",
+      [PeriodLengthInDays.AllTime]: "Gesamter Zeitraum",
+      [PeriodLengthInDays.Custom]: "Benutzerdefiniert"
+    },
+    lastHours: { one: "Letzte {count} Stunde", other: "Letzte {count} Stunden" },
+    lastDays: { one: "Letzter {count} Tag", other: "Letzte {count} Tage" },
+    lastMonths: { one: "Letzter {count} Monat", other: "Letzte {count} Monate" }
+  }]
+]);
+
+
+
+/**
+ * Registers a new label pack or overrides labels of an existing one.
+ *
+ * Overrides are merged into the existing pack for the same locale, so you can
+ * replace a single label without redefining the rest.
+ *
+ * @param {string} locale - BCP 47 locale tag (e.g. `"fr"`, `"de-AT"`). Matching is case-insensitive.
+ * @param {PeriodLabelPackOverrides} labels - Labels to add or replace.
+ *
+ * @example
+ * registerPeriodLabels("en", { fixed: { [PeriodLengthInDays.Custom]: "Pick dates…" } });
+ *
+ * @example
+ * registerPeriodLabels("fr", {
+ *   fixed: { [PeriodLengthInDays.Today]: "Aujourd'hui" },
+ *   lastDays: { one: "Dernier {count} jour", other: "Derniers {count} jours" }
+ * });
+ */
+export function registerPeriodLabels(locale: string, labels: PeriodLabelPackOverrides): void {
+  if (typeof locale !== "string" || !locale.trim()) {
+    return;
+  }
+
+  const key = locale.trim().toLowerCase();
+  const existing = _labelPacks.get(key) ?? {};
+
+  _labelPacks.set(key, {
+    fixed: { ...existing.fixed, ...labels.fixed },
+    lastHours: { ...existing.lastHours, ...labels.lastHours },
+    lastDays: { ...existing.lastDays, ...labels.lastDays },
+    lastMonths: { ...existing.lastMonths, ...labels.lastMonths }
+  });
+}
+
+
+
+/**
+ * Returns the translated label of a single period.
+ *
+ * Lookup order: exact locale (`"de-AT"`) → base language (`"de"`) → English.
+ * Numeric labels use `Intl.PluralRules` and `Intl.NumberFormat` for the given locale.
+ *
+ * @param {PeriodLengthInDays} period - Period to label.
+ * @param {string} [locale="en"] - BCP 47 locale tag.
+ * @returns {string} Translated label.
+ *
+ * @example
+ * getPeriodLabel(PeriodLengthInDays.Seven, "bg"); // "Последните 7 дни"
+ * getPeriodLabel(PeriodLengthInDays.ThisMonth, "de"); // "Dieser Monat"
+ */
+export function getPeriodLabel(period: PeriodLengthInDays, locale: string = _DEFAULT_LOCALE): string {
+  const packs = _resolvePacks(locale);
+  const numeric = _numericPeriods[period];
+
+  if (!numeric) {
+    return packs.map(p => p.fixed?.[period]).find(Boolean) ?? String(period);
+  }
+
+  const { label, count } = numeric;
+  const resolvedLocale = _resolveIntlLocale(locale);
+  const category = new Intl.PluralRules(resolvedLocale).select(count);
+  const template = packs
+    .map(p => p[label]?.[category] ?? p[label]?.other)
+    .find(Boolean) ?? "{count}";
+
+  return template.replace("{count}", new Intl.NumberFormat(resolvedLocale).format(count));
+}
+
+
+
+
+// Display order of the period picker
+const _periodOrder: PeriodLengthInDays[] = [
+  PeriodLengthInDays.Today,
+  PeriodLengthInDays.Yesterday,
+  PeriodLengthInDays.One,
+  PeriodLengthInDays.Three,
+  PeriodLengthInDays.ThisWeek,
+  PeriodLengthInDays.LastWeek,
+  PeriodLengthInDays.Seven,
+  PeriodLengthInDays.ThisMonth,
+  PeriodLengthInDays.LastMonth,
+  PeriodLengthInDays.Thirty,
+  PeriodLengthInDays.Fifty,
+  PeriodLengthInDays.ThreeMonths,
+  PeriodLengthInDays.ThisQuarter,
+  PeriodLengthInDays.LastQuarter,
+  PeriodLengthInDays.YearToDate,
+  PeriodLengthInDays.ThisYear,
+  PeriodLengthInDays.LastYear,
+  PeriodLengthInDays.AllTime,
+  PeriodLengthInDays.Custom
+];
+
+
+/**
+ * Returns the period picker options with labels translated to the given locale.
+ *
+ * Built-in translations: English (`"en"`), Bulgarian (`"bg"`) and German (`"de"`).
+ * Other locales can be added with `registerPeriodLabels`; unknown locales fall back to English.
+ *
+ * @param {PeriodLengthInDays[]} [excludePeriods=[]] - Periods to leave out.
+ * @param {string} [locale="en"] - BCP 47 locale tag (e.g. `"bg"`, `"de-DE"`).
+ * @returns {IPeriodOptions[]} Options in display order.
+ *
+ * @example
+ * getPeriodOptions([PeriodLengthInDays.Custom], "bg");
+ * // [{ text: "Днес", value: PeriodLengthInDays.Today }, ...]
+ */
+export const getPeriodOptions = (excludePeriods: PeriodLengthInDays[] = [], locale?: string) => {
+  const options: IPeriodOptions[] = _periodOrder
+    .filter(value => !excludePeriods.includes(value))
+    .map(value => ({ text: getPeriodLabel(value, locale), value }));
+
+  return options;
+};
+
+
+function _resolvePacks(locale: string): PeriodLabelPackOverrides[] {
+  const key = typeof locale === "string" ? locale.trim().toLowerCase() : _DEFAULT_LOCALE;
+  const candidates = [key, key.split("-")[0], _DEFAULT_LOCALE];
+
+  return [...new Set(candidates)]
+    .map(c => _labelPacks.get(c))
+    .filter((p): p is PeriodLabelPackOverrides => !!p);
+}
+
+
+function _resolveIntlLocale(locale: string): string {
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? _DEFAULT_LOCALE;
+  }
+  catch {
+    return _DEFAULT_LOCALE;
+  }
+}
@@ -0,0 +1,740 @@
+import { IClockOptions, resolveNow } from "./clock";
+import { IPeriodBoundaries } from "./dateTimePeriodParser";
+import { formatDatePattern } from "./datePatterns";
+import { DateSource, formatUTCDateToLocalDateString, parseValidDate } from "./timeFormatters";
+import { fromDayNumber, getDaysInMonth, getZonedParts, resolveTimeZone, toDayNumber, zonedPartsToTimestamp } from "./zonedCalendar";
+
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RecurrenceWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+
+/**
+ * A `BYDAY` entry. `nth` selects one weekday inside the month (`MONTHLY`) or year (`YEARLY`):
+ * `1` → first, `2` → second, `-1` → last. Without `nth`, every such weekday matches.
+ */
+export interface IRecurrenceByDay {
+  weekday: RecurrenceWeekday;
+  nth?: number;
+}
+
+
+/**
+ * A recurrence rule — a practical subset of iCalendar RRULE (RFC 5545).
+ *
+ * @property dtStart - First occurrence. Also defines the time of day of all occurrences.
+ * @property freq - `FREQ`: how often the rule repeats.
+ * @property interval - `INTERVAL`: repeat every N periods. Default: `1`.
+ * @property byDay - `BYDAY`: weekdays (e.g. `["MO", "FR"]` or `[{ weekday: "FR", nth: -1 }]`).
+ * @property byMonthDay - `BYMONTHDAY`: days of the month, `1..31` or `-1..-31` counted from the end (`-1` → last day).
+ * @property count - `COUNT`: total number of occurrences, counted from `dtStart`.
+ * @property until - `UNTIL`: last possible occurrence (inclusive). A date-only string (`"2026-06-30"`) includes the whole day.
+ * @property timeZone - IANA time zone of the wall-clock times. Default: the local time zone.
+ */
+export interface IRecurrenceRule {
+  dtStart: DateSource;
+  freq: RecurrenceFrequency;
+  interval?: number;
+  byDay?: Array<RecurrenceWeekday | IRecurrenceByDay>;
+  byMonthDay?: number[];
+  count?: number;
+  until?: DateSource;
+  timeZone?: string;
+}
+
+
+/**
+ * Options for {@link getOccurrences}.
+ *
+ * @property limit - Maximum number of returned occurrences. Default: `1000`.
+ */
+export interface IGetOccurrencesOptions {
+  limit?: number;
+}
+
+
+interface INormalizedRule {
+  start: number;
+  startDay: number;
+  time: { hour: number; minute: number; second: number; };
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Array<{ weekday: number; nth?: number; }>;
+  byMonthDay: number[];
+  count: number;
+  until: number;
+  timeZone?: string;
+}
+
+
+interface IRecurrencePhrases {
+  every: Record<RecurrenceFrequency, { one: string; other: string; }>;
+  onWeekdays: string;
+  onMonthDays: string;
+  onLastDay: string;
+  onNthWeekday: string;
+  ordinal: (nth: number, weekday: number) => string;
+  at: string;
+  times: { one: string; other: string; };
+  until: string;
+}
+
+
+const _weekdayCodes: RecurrenceWeekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const _frequencies: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+const _byDayRegex = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/;
+const _untilRegex = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+const _dateOnlyRegex = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const _DEFAULT_LIMIT = 1000;
+
+// Safety limit for rules that (almost) never match, e.g. "5th Monday of February"
+const _MAX_PERIODS = 50_000;
+
+
+const _ordinalsEn: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", 5: "fifth", [-1]: "last", [-2]: "second to last" };
+const _ordinalsDe: Record<number, string> = { 1: "ersten", 2: "zweiten", 3: "dritten", 4: "vierten", 5: "fünften", [-1]: "letzten", [-2]: "vorletzten" };
+const _ordinalsBgMasculine: Record<number, string> = { 1: "първия", 2: "втория", 3: "третия", 4: "четвъртия", 5: "петия", [-1]: "последния", [-2]: "предпоследния" };
+const _ordinalsBgFeminine: Record<number, string> = { 1: "първата", 2: "втората", 3: "третата", 4: "четвъртата", 5: "петата", [-1]: "последната", [-2]: "предпоследната" };
+
+// Built-in description phrases, keyed by base language
+const _phrases: Record<string, IRecurrencePhrases> = {
+  en: {
+    every: {
+      DAILY: { one: "every day", other: "every {n} days" },
+      WEEKLY: { one: "every week", other: "every {n} weeks" },
+      MONTHLY: { one: "every month", other: "every {n} months" },
+      YEARLY: { one: "every year", other: "every {n} years" }
+    },
+    onWeekdays: "on {list}",
+    onMonthDays: "on day {list}",
+    onLastDay: "on the last day",
+    onNthWeekday: "on the {list}",
+    ordinal: (nth) => _ordinalsEn[nth] ?? `#${nth}`,
+    at: "at {time}",
+    times: { one: "once", other: "{n} times" },
+    until: "until {date}"
+  },
+
+  de: {
+    every: {
+      DAILY: { one: "täglich", other: "alle {n} Tage" },
+      WEEKLY: { one: "wöchentlich", other: "alle {n} Wochen" },
+      MONTHLY: { one: "monatlich", other: "alle {n} Monate" },
+      YEARLY: { one: "jährlich", other: "alle {n} Jahre" }
+    },
+    onWeekdays: "am {list}",
+    onMonthDays: "an Tag {list}",
+    onLastDay: "am letzten Tag",
+    onNthWeekday: "am {list}",
+    ordinal: (nth) => _ordinalsDe[nth] ?? `${nth}.`,
+    at: "um {time}",
+    times: { one: "einmal", other: "{n}-mal" },
+    until: "bis {date}"
+  },
+
+  bg: {
+    every: {
+      DAILY: { one: "всеки ден", other: "на всеки {n} дни" },
+      WEEKLY: { one: "всяка седмица", other: "на всеки {n} седмици" },
+      MONTHLY: { one: "всеки месец", other: "на всеки {n} месеца" },
+      YEARLY: { one: "всяка година", other: "на всеки {n} години" }
+    },
+    onWeekdays: "в {list}",
+    onMonthDays: "на {list} число",
+    onLastDay: "в последния ден",
+    onNthWeekday: "в {list}",
+    // Wednesday, Saturday and Sunday are feminine in Bulgarian
+    ordinal: (nth, weekday) => ([0, 3, 6].includes(weekday) ? _ordinalsBgFeminine : _ordinalsBgMasculine)[nth] ?? `${nth}.`,
+    at: "в {time}",
+    times: { one: "веднъж", other: "{n} пъти" },
+    until: "до {date}"
+  }
+};
+
+
+
+/**
+ * Parses an RRULE string (e.g. `"FREQ=WEEKLY;BYDAY=MO,FR"`) into a {@link IRecurrenceRule}.
+ *
+ * Supported parts: `FREQ`, `INTERVAL`, `BYDAY`, `BYMONTHDAY`, `COUNT`, `UNTIL` (and `WKST=MO`).
+ * Rules using any other part are rejected, because they cannot be honoured.
+ * An optional `"RRULE:"` prefix is ignored.
+ *
+ * @param {string} value - RRULE string.
+ * @param {DateSource} dtStart - First occurrence (not part of the RRULE string).
+ * @param {string} [timeZone] - IANA time zone of the wall-clock times.
+ * @returns {IRecurrenceRule | null} Parsed rule, or `null` if the string is invalid or unsupported.
+ *
+ * @example
+ * parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=-1", "2026-01-31T18:00:00");
+ * // { dtStart: "2026-01-31T18:00:00", freq: "MONTHLY", byMonthDay: [-1] }
+ */
+export function parseRecurrenceRule(value: string, dtStart: DateSource, timeZone?: string): IRecurrenceRule | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+
+  const rule: Partial<IRecurrenceRule> = { dtStart, timeZone };
+  const parts = value.trim().replace(/^RRULE:/i, "").split(";").filter(Boolean);
+
+  for (const part of parts) {
+    const [key, raw = ""] = part.split("=").map(s => s.trim().toUpperCase());
+
+    switch (key) {
+      case "FREQ":
+        if (!_frequencies.includes(raw as RecurrenceFrequency)) return null;
+        rule.freq = raw as RecurrenceFrequency;
+        break;
+
+      case "INTERVAL":
+        rule.interval = Number(raw);
+        break;
+
+      case "COUNT":
+        rule.count = Number(raw);
+        break;
+
+      case "BYMONTHDAY":
+        rule.byMonthDay = raw.split(",").map(Number);
+        break;
+
+      case "BYDAY": {
+        const byDay: IRecurrenceByDay[] = [];
+
+        for (const token of raw.split(",")) {
+          const match = _byDayRegex.exec(token);
+          if (!match) return null;
+          byDay.push(match[1] ? { weekday: match[2] as RecurrenceWeekday, nth: Number(match[1]) } : { weekday: match[2] as RecurrenceWeekday });
+        }
+
+        rule.byDay = byDay;
+        break;
+      }
+
+      case "UNTIL": {
+        const match = _untilRegex.exec(raw);
+        if (!match) return null;
+
+        const [, y, mo, d, h, mi, s, utc] = match;
+        const partsInput = { year: +y, month: +mo, day: +d, hour: +h, minute: +mi, second: +s };
+
+        // A DATE value includes the whole day (RFC 5545)
+        rule.until = h === undefined
+          ? `${y}-${mo}-${d}`
+          : utc
+          ? Date.UTC(partsInput.year, partsInput.month - 1, partsInput.day, partsInput.hour, partsInput.minute, partsInput.second)
+          : zonedPartsToTimestamp(partsInput, resolveTimeZone(timeZone));
+        break;
+      }
+
+      case "WKST":
+        if (raw !== "MO") return null;
+        break;
+
+      default:
+        return null;
+    }
+  }
+
+  return rule.freq && _normalizeRule(rule as IRecurrenceRule) ? rule as IRecurrenceRule : null;
+}
+
+
+
+/**
+ * Serializes a rule into an RRULE string (without `DTSTART`). `UNTIL` is written in UTC.
+ *
+ * @param {IRecurrenceRule} rule - The rule to serialize.
+ * @returns {string | null} RRULE string, or `null` if the rule is invalid.
+ *
+ * @example
+ * serializeRecurrenceRule({ dtStart: start, freq: "WEEKLY", byDay: ["MO"] }); // "FREQ=WEEKLY;BYDAY=MO"
+ */
+export function serializeRecurrenceRule(rule: IRecurrenceRule): string | null {
+  const normalized = _normalizeRule(rule);
+
+  if (!normalized) {
+    return null;
+  }
+
+  const parts = [`FREQ=${normalized.freq}`];
+
+  if (normalized.interval > 1) {
+    parts.push(`INTERVAL=${normalized.interval}`);
+  }
+
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${normalized.byDay.map(d => `${d.nth ?? ""}${_weekdayCodes[d.weekday]}`).join(",")}`);
+  }
+
+  if (normalized.byMonthDay.length) {
+    parts.push(`BYMONTHDAY=${normalized.byMonthDay.join(",")}`);
+  }
+
+  if (Number.isFinite(normalized.count)) {
+    parts.push(`COUNT=${normalized.count}`);
+  }
+
+  if (Number.isFinite(normalized.until)) {
+    parts.push(`UNTIL=${new Date(normalized.until).toISOString().replace(/[-:]|\.\d{3}/g, "")}`);
+  }
+
+  return parts.join(";");
+}
+
+
+
+/**
+ * Lists all occurrences of a rule inside a period.
+ *
+ * The period is half-open: `start` is inclusive, `end` is exclusive.
+ * `COUNT` is always counted from `dtStart`, even if the period starts later.
+ *
+ * @param {IRecurrenceRule} rule - Recurrence rule.
+ * @param {IPeriodBoundaries} boundaries - Period in milliseconds (e.g. from `calculatePeriodBoundaries`).
+ * @param {IGetOccurrencesOptions} [options] - Result limit.
+ * @returns {Date[]} Occurrences in chronological order (empty for invalid input).
+ *
+ * @example
+ * // Every Monday at 09:00, this month
+ * getOccurrences(
+ *   { dtStart: "2026-01-05T09:00:00", freq: "WEEKLY", byDay: ["MO"] },
+ *   calculatePeriodBoundaries(PeriodLengthInDays.ThisMonth)
+ * );
+ */
+export function getOccurrences(rule: IRecurrenceRule, boundaries: IPeriodBoundaries, options: IGetOccurrencesOptions = {}): Date[] {
+  const normalized = _normalizeRule(rule);
+  const { start, end } = boundaries ?? {};
+
+  if (!normalized || !Number.isFinite(start) || !Number.isFinite(end)) {
+    return [];
+  }
+
+  const limit = Number.isInteger(options.limit) && options.limit! > 0 ? options.limit! : _DEFAULT_LIMIT;
+  const result: Date[] = [];
+
+  for (const timestamp of _iterate(normalized, end, start)) {
+    if (timestamp >= end || result.length >= limit) {
+      break;
+    }
+
+    if (timestamp >= start) {
+      result.push(new Date(timestamp));
+    }
+  }
+
+  return result;
+}
+
+
+
+/**
+ * Returns the first occurrence strictly after the given moment.
+ *
+ * @param {IRecurrenceRule} rule - Recurrence rule.
+ * @param {IClockOptions} [options] - Reference moment (`now`) or clock. Default: the current time.
+ * @returns {Date | null} Next occurrence, or `null` if the rule has ended or is invalid.
+ *
+ * @example
+ * getNextOccurrence({ dtStart: "2026-01-31T18:00:00", freq: "MONTHLY", byMonthDay: [-1] });
+ * // the last day of the current (or next) month, 18:00
+ */
+export function getNextOccurrence(rule: IRecurrenceRule, options: IClockOptions = {}): Date | null {
+  const normalized = _normalizeRule(rule);
+
+  if (!normalized) {
+    return null;
+  }
+
+  const after = resolveNow(options);
+
+  for (const timestamp of _iterate(normalized, Infinity, after)) {
+    if (timestamp > after) {
+      return new Date(timestamp);
+    }
+  }
+
+  return null;
+}
+
+
+
+/**
+ * Describes a rule in words, e.g. `"every week on Monday at 09:00"`.
+ *
+ * Built-in languages: English (`"en"`), Bulgarian (`"bg"`) and German (`"de"`).
+ * Other locales fall back to English phrases; weekday names and dates always follow the locale.
+ *
+ * @param {IRecurrenceRule} rule - Recurrence rule.
+ * @param {string} [locale="en"] - BCP 47 locale tag.
+ * @returns {string} Human-readable description, or `"N/A"` for invalid rules.
+ *
+ * @example
+ * describeRecurrence({ dtStart: "2026-01-05T09:00:00", freq: "WEEKLY", byDay: ["MO"] });
+ * // "every week on Monday at 09:00"
+ *
+ * @example
+ * describeRecurrence({ dtStart: "2026-01-31T18:00:00", freq: "MONTHLY", byMonthDay: [-1], count: 6 }, "bg");
+ * // "всеки месец в последния ден в 18:00, 6 пъти"
+ */
+export function describeRecurrence(rule: IRecurrenceRule, locale: string = "en"): string {
+  const normalized = _normalizeRule(rule);
+
+  if (!normalized) {
+    return "N/A";
+  }
+
+  const language = typeof locale === "string" ? locale.trim().toLowerCase().split("-")[0] : "en";
+  const phrases = _phrases[language] ?? _phrases.en;
+  const safeLocale = _phrases[language] ? locale : "en";
+  const { freq, interval, byDay, byMonthDay, count, until, timeZone } = normalized;
+
+  const list = (items: string[]) => {
+    try {
+      return new Intl.ListFormat(safeLocale, { style: "long", type: "conjunction" }).format(items);
+    }
+    catch {
+      return items.join(", ");
+    }
+  };
+
+  const weekdayName = (weekday: number) => formatDatePattern(Date.UTC(2000, 0, 2 + weekday), "dddd", { locale: safeLocale, timeZone: "UTC" }) ?? "";
+
+  const every = phrases.every[freq];
+  const parts = [(interval === 1 ? every.one : every.other).replace("{n}", String(interval))];
+
+  const nthDays = byDay.filter(d => d.nth !== undefined);
+  const plainDays = byDay.filter(d => d.nth === undefined);
+
+  if (byMonthDay.length === 1 && byMonthDay[0] === -1) {
+    parts.push(phrases.onLastDay);
+  }
+  else if (byMonthDay.length) {
+    parts.push(phrases.onMonthDays.replace("{list}", list(byMonthDay.map(String))));
+  }
+
+  if (nthDays.length) {
+    parts.push(phrases.onNthWeekday.replace("{list}", list(nthDays.map(d => `${phrases.ordinal(d.nth!, d.weekday)} ${weekdayName(d.weekday)}`))));
+  }
+
+  if (plainDays.length) {
+    parts.push(phrases.onWeekdays.replace("{list}", list(plainDays.map(d => weekdayName(d.weekday)))));
+  }
+
+  parts.push(phrases.at.replace("{time}", formatDatePattern(normalized.start, "HH:mm", { timeZone }) ?? ""));
+
+  let description = parts.join(" ");
+
+  if (Number.isFinite(count)) {
+    description += `, ${(count === 1 ? phrases.times.one : phrases.times.other).replace("{n}", String(count))}`;
+  }
+
+  if (Number.isFinite(until)) {
+    description += `, ${phrases.until.replace("{date}", formatUTCDateToLocalDateString({ source: until, unit: "date", locale: safeLocale }))}`;
+  }
+
+  return description;
+}
+
+
+function _normalizeRule(rule: IRecurrenceRule): INormalizedRule | null {
+  if (!rule || !_frequencies.includes(rule.freq)) {
+    return null;
+  }
+
+  const startDate = parseValidDate(rule.dtStart);
+
+  if (!startDate) {
+    return null;
+  }
+
+  const { interval = 1, byDay = [], byMonthDay = [], count } = rule;
+  const timeZone = resolveTimeZone(rule.timeZone);
+  const until = rule.until === undefined || rule.until === null ? Infinity : _parseUntil(rule.until, timeZone);
+
+  if (
+    !Number.isInteger(interval) || interval < 1 ||
+    (count !== undefined && (!Number.isInteger(count) || count < 1)) ||
+    until === undefined ||
+    !Array.isArray(byDay) || !Array.isArray(byMonthDay) ||
+    byMonthDay.some(d => !Number.isInteger(d) || d === 0 || d < -31 || d > 31)
+  ) {
+    return null;
+  }
+
+  const normalizedByDay: INormalizedRule["byDay"] = [];
+
+  for (const entry of byDay) {
+    const { weekday, nth } = typeof entry === "string" ? { weekday: entry, nth: undefined } : entry ?? {};
+    const index = _weekdayCodes.indexOf(weekday as RecurrenceWeekday);
+
+    // RFC 5545: numbered weekdays are only valid for MONTHLY and YEARLY rules
+    if (index < 0 || (nth !== undefined && (!Number.isInteger(nth) || nth === 0 || Math.abs(nth) > 53 || rule.freq === "DAILY" || rule.freq === "WEEKLY"))) {
+      return null;
+    }
+
+    normalizedByDay.push(nth === undefined ? { weekday: index } : { weekday: index, nth });
+  }
+
+  const p = getZonedParts(startDate.getTime(), timeZone);
+
+  return {
+    start: startDate.getTime(),
+    startDay: toDayNumber(p.year, p.month, p.day),
+    time: { hour: p.hour, minute: p.minute, second: p.second },
+    freq: rule.freq,
+    interval,
+    byDay: normalizedByDay,
+    byMonthDay: [...new Set(byMonthDay)],
+    count: count ?? Infinity,
+    until,
+    timeZone
+  };
+}
+
+
+// "YYYY-MM-DD" → the last moment of that day in the time zone; other values are exact moments
+function _parseUntil(value: DateSource, timeZone?: string): number | undefined {
+  const dateOnly = typeof value === "string" ? _dateOnlyRegex.exec(value.trim()) : null;
+
+  if (!dateOnly) {
+    return parseValidDate(value)?.getTime();
+  }
+
+  const [year, month, day] = dateOnly.slice(1).map(Number);
+
+  return day <= getDaysInMonth(year, month) ? zonedPartsToTimestamp({ year, month, day: day + 1 }, timeZone) - 1 : undefined;
+}
+
+
+/**
+ * Yields occurrence timestamps in chronological order, honouring `COUNT` and `UNTIL`.
+ * Stops early once a period starts after `horizon`.
+ *
+ * Without `COUNT`, periods before the one containing `from` are skipped instead of walked through,
+ * so rules that started long ago stay fast. Occurrences before `from` may still be yielded.
+ */
+function* _iterate(rule: INormalizedRule, horizon: number = Infinity, from: number = -Infinity): Generator<number> {
+  const { start, startDay, time, timeZone } = rule;
+  const firstPeriod = Number.isFinite(rule.count) || from <= start ? 0 : _periodAt(rule, from);
+  let emitted = 0;
+
+  for (let period = firstPeriod; period < firstPeriod + _MAX_PERIODS; period++) {
+    const days = _candidateDays(rule, period);
+
+    if (days === null) {
+      return;
+    }
+
+    for (const dayNumber of days) {
+      if (dayNumber < startDay) {
+        continue;
+      }
+
+      const { year, month, day } = fromDayNumber(dayNumber);
+      const timestamp = zonedPartsToTimestamp({ year, month, day, ...time }, timeZone);
+
+      if (timestamp < start) {
+        continue;
+      }
+
+      if (timestamp > rule.until || emitted >= rule.count) {
+        return;
+      }
+
+      emitted++;
+      yield timestamp;
+    }
+
+    const nextPeriodDays = _candidateDays(rule, period + 1, true);
+
+    if (nextPeriodDays !== null && nextPeriodDays.length && zonedPartsToTimestamp({ ...fromDayNumber(nextPeriodDays[0]) }, timeZone) > horizon) {
+      return;
+    }
+  }
+}
+
+
+/**
+ * Index of the period (day, week, month or year, counting `interval`) that contains `timestamp`.
+ */
+function _periodAt(rule: INormalizedRule, timestamp: number): number {
+  const { freq, interval, startDay, timeZone } = rule;
+  const start = fromDayNumber(startDay);
+  const p = getZonedParts(timestamp, timeZone);
+  const day = toDayNumber(p.year, p.month, p.day);
+
+  switch (freq) {
+    case "DAILY":
+      return Math.max(Math.floor((day - startDay) / interval), 0);
+
+    case "WEEKLY": {
+      const firstWeekStart = startDay - ((start.weekday + 6) % 7);  // weeks start on Monday
+      return Math.max(Math.floor((day - firstWeekStart) / 7 / interval), 0);
+    }
+
+    case "MONTHLY":
+      return Math.max(Math.floor(((p.year - start.year) * 12 + p.month - start.month) / interval), 0);
+
+    case "YEARLY":
+      return Math.max(Math.floor((p.year - start.year) / interval), 0);
+  }
+}
+
+
+/**
+ * Day numbers of the candidate days in the n-th period of the rule.
+ * With `firstDayOnly`, returns just the first day of that period (used for the horizon check).
+ */
+function _candidateDays(rule: INormalizedRule, period: number, firstDayOnly: boolean = false): number[] | null {
+  const { freq, interval, startDay, byDay, byMonthDay } = rule;
+  const start = fromDayNumber(startDay);
+  const weekdayMatches = (dayNumber: number) => !byDay.length || byDay.some(d => d.weekday === fromDayNumber(dayNumber).weekday);
+  const monthDayMatches = (dayNumber: number) => {
+    if (!byMonthDay.length) {
+      return true;
+    }
+
+    const { year, month, day } = fromDayNumber(dayNumber);
+    const length = getDaysInMonth(year, month);
+
+    return byMonthDay.some(d => (d > 0 ? d : length + d + 1) === day);
+  };
+
+  switch (freq) {
+    case "DAILY": {
+      const day = startDay + period * interval;
+      return firstDayOnly || (weekdayMatches(day) && monthDayMatches(day)) ? [day] : [];
+    }
+
+    case "WEEKLY": {
+      const weekStart = startDay - ((start.weekday + 6) % 7) + period * interval * 7;  // weeks start on Monday
+
+      if (firstDayOnly) {
+        return [weekStart];
+      }
+
+      const weekdays = byDay.length ? byDay.map(d => d.weekday) : [start.weekday];
+
+      return _sortedUnique(weekdays.map(w => weekStart + ((w + 6) % 7))).filter(monthDayMatches);
+    }
+
+    case "MONTHLY": {
+      const monthIndex = start.year * 12 + (start.month - 1) + period * interval;
+      const year = Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+
+      if (year > 9999) {
+        return null;
+      }
+
+      if (firstDayOnly) {
+        return [toDayNumber(year, month, 1)];
+      }
+
+      return _daysInRange(rule, toDayNumber(year, month, 1), getDaysInMonth(year, month), start.day);
+    }
+
+    case "YEARLY": {
+      const year = start.year + period * interval;
+
+      if (year > 9999) {
+        return null;
+      }
+
+      if (firstDayOnly) {
+        return [toDayNumber(year, 1, 1)];
+      }
+
+      // BYMONTHDAY without BYMONTH → those days in every month of the year (RFC 5545)
+      if (byMonthDay.length || byDay.length) {
+        return _daysInRange(rule, toDayNumber(year, 1, 1), toDayNumber(year + 1, 1, 1) - toDayNumber(year, 1, 1), start.day);
+      }
+
+      // Plain yearly rule → dtStart's month and day (Feb 29 only in leap years)
+      return start.day <= getDaysInMonth(year, start.month) ? [toDayNumber(year, start.month, start.day)] : [];
+    }
+  }
+}
+
+
+/**
+ * Candidate days inside a month or year that starts at `firstDay` and has `length` days.
+ *
+ * When both `BYDAY` and `BYMONTHDAY` are set, a day must match both (RFC 5545): `BYDAY=1FR;BYMONTHDAY=13`
+ * only matches a first Friday that is also the 13th, and a numbered weekday counts inside the month or year.
+ */
+function _daysInRange(rule: INormalizedRule, firstDay: number, length: number, defaultDay: number): number[] {
+  const { byDay, byMonthDay } = rule;
+
+  if (!byDay.length && !byMonthDay.length) {
+    // Default → dtStart's day of month; months without that day are skipped
+    return defaultDay <= length ? [firstDay + defaultDay - 1] : [];
+  }
+
+  const weekdays = byDay.length ? _weekdaysInRange(byDay, firstDay, length) : null;
+  const monthDays = byMonthDay.length ? _monthDaysInRange(byMonthDay, firstDay, length) : null;
+
+  if (weekdays && monthDays) {
+    const weekdaySet = new Set(weekdays);
+    return _sortedUnique(monthDays.filter(day => weekdaySet.has(day)));
+  }
+
+  return _sortedUnique(weekdays ?? monthDays ?? []);
+}
+
+
+// BYDAY days of the range; `nth` counts from the start (or end) of the range
+function _weekdaysInRange(byDay: INormalizedRule["byDay"], firstDay: number, length: number): number[] {
+  const days: number[] = [];
+
+  byDay.forEach(({ weekday, nth }) => {
+    const firstMatch = firstDay + ((weekday - fromDayNumber(firstDay).weekday + 7) % 7);
+    const matches: number[] = [];
+
+    for (let day = firstMatch; day < firstDay + length; day += 7) {
+      matches.push(day);
+    }
+
+    if (nth === undefined) {
+      days.push(...matches);
+    }
+    else {
+      const match = nth > 0 ? matches[nth - 1] : matches[matches.length + nth];
+
+      if (match !== undefined) {
+        days.push(match);
+      }
+    }
+  });
+
+  return days;
+}
+
+
+// BYMONTHDAY days of every month in the range; days a month doesn't have are skipped
+function _monthDaysInRange(byMonthDay: number[], firstDay: number, length: number): number[] {
+  const days: number[] = [];
+
+  for (let monthStart = firstDay; monthStart < firstDay + length;) {
+    const { year, month } = fromDayNumber(monthStart);
+    const monthLength = getDaysInMonth(year, month);
+
+    byMonthDay
+      .map(d => d > 0 ? d : monthLength + d + 1)
+      .filter(d => d >= 1 && d <= monthLength)
+      .forEach(d => days.push(monthStart + d - 1));
+
+    monthStart += monthLength;
+  }
+
+  return days;
+}
+
+
+function _sortedUnique(days: number[]): number[] {
+  return [...new Set(days)].sort((a, b) => a - b);
+}
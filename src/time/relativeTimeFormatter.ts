@@ -0,0 +1,306 @@
+import { IClock, IClockOptions, getDefaultClock, onDefaultClockChange, resolveNow } from "./clock";
+import { DateFormatUnit, DateSource, formatUTCDateToLocalDateString, parseValidDate } from "./timeFormatters";
+
+
+export type RelativeTimeUnit = "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+
+/**
+ * Options for {@link formatRelativeTime}.
+ *
+ * @property locale - Target locale (e.g. `"en"`, `"bg-BG"`). Default: `"en"`.
+ * @property now - Reference moment. Default: the current time of `clock`.
+ * @property clock - Clock used for this call instead of the global one (see `setDefaultClock`).
+ * @property numeric - `"auto"` allows words like "yesterday" / "now"; `"always"` keeps numbers ("1 day ago"). Default: `"auto"`.
+ * @property style - Length of the output (`"long"`, `"short"`, `"narrow"`). Default: `"long"`.
+ * @property thresholds - Largest value shown in a unit before switching to the next one
+ *   (e.g. `{ minute: 45 }` → 45 minutes becomes "1 hour"). Below the `second` threshold the output is "now".
+ * @property absoluteAfter - Distance in milliseconds after which an absolute date is shown instead.
+ * @property absoluteUnit - Format unit of the absolute date. Default: `"date"`.
+ * @property returnEmptyInsteadOfNA - Return `""` instead of `"N/A"` for invalid sources.
+ */
+export interface IRelativeTimeOptions extends IClockOptions {
+  locale?: string;
+  numeric?: Intl.RelativeTimeFormatNumeric;
+  style?: Intl.RelativeTimeFormatStyle;
+  thresholds?: Partial<Record<Exclude<RelativeTimeUnit, "year">, number>>;
+  absoluteAfter?: number;
+  absoluteUnit?: DateFormatUnit;
+  returnEmptyInsteadOfNA?: boolean;
+}
+
+
+/**
+ * Options for {@link subscribeRelativeTime}. `now` is always the live time of `clock`.
+ */
+export type RelativeTimeSubscriptionOptions = Omit<IRelativeTimeOptions, "now">;
+
+
+// `clock` is undefined when the subscription follows the global clock
+interface IRelativeTimeSubscription {
+  time: number;
+  clock?: IClock;
+  options: RelativeTimeSubscriptionOptions;
+  listener: (text: string) => void;
+  text: string;
+  nextUpdateAt: number;
+  unsubscribeClock?: VoidFunction;
+}
+
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Unit sizes; months and years use average lengths
+const _unitMs: Record<RelativeTimeUnit, number> = {
+  second: SECOND_MS,
+  minute: MINUTE_MS,
+  hour: HOUR_MS,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30.436875 * DAY_MS,
+  year: 365.2425 * DAY_MS
+};
+
+const _defaultThresholds: Required<NonNullable<IRelativeTimeOptions["thresholds"]>> = {
+  second: 45,
+  minute: 45,
+  hour: 22,
+  day: 6,
+  week: 4,
+  month: 11
+};
+
+const _unitOrder: RelativeTimeUnit[] = ["second", "minute", "hour", "day", "week", "month", "year"];
+
+// Longest timer delay supported by setTimeout
+const _MAX_TIMEOUT = 2 ** 31 - 1;
+
+const _subscriptions = new Set<IRelativeTimeSubscription>();
+let _timer: ReturnType<typeof setTimeout> | null = null;
+
+onDefaultClockChange(_onDefaultClockChange);
+
+
+
+/**
+ * Formats a date relative to now (e.g. "3 minutes ago", "in 2 days", "yesterday").
+ *
+ * Built on `Intl.RelativeTimeFormat`. The unit is picked automatically from the distance
+ * and the values are rounded, so 50 seconds is "1 minute ago" and 23 hours is "1 day ago".
+ *
+ * Default thresholds: < 45 seconds → "now", < 45 minutes, < 22 hours, < 6 days, < 4 weeks,
+ * < 11 months, then years.
+ *
+ * @param {DateSource} source - A Date object, a date string, or a Unix timestamp (milliseconds since Epoch).
+ * @param {IRelativeTimeOptions} [options] - Locale, thresholds and absolute date fallback.
+ * @returns {string} Relative time string, an absolute date past `absoluteAfter`, or `"N/A"` for invalid sources.
+ *
+ * @example
+ * formatRelativeTime(Date.now() - 3 * 60 * 1000); // "3 minutes ago"
+ * formatRelativeTime(Date.now() + 2 * 86400000);   // "in 2 days"
+ *
+ * @example
+ * // Switch to an absolute date after 7 days
+ * formatRelativeTime(post.createdAt, { locale: "bg", absoluteAfter: 7 * 86400000 });
+ */
+export function formatRelativeTime(source: DateSource, options: IRelativeTimeOptions = {}): string {
+  const date = parseValidDate(source);
+
+  if (!date) {
+    return options.returnEmptyInsteadOfNA ? "" : "N/A";
+  }
+
+  return _format(date.getTime(), resolveNow(options), options);
+}
+
+
+
+/**
+ * Subscribes to a live relative time string for the given date.
+ *
+ * The listener is called immediately with the current text and then again only
+ * when the text actually changes ("now" → "1 minute ago" → "2 minutes ago" ...).
+ *
+ * All subscriptions share **one** timer that wakes up exactly at the next moment
+ * any of the texts changes, so components don't need to poll on their own.
+ * Clocks with a `subscribe` hook (e.g. `createFakeClock`) refresh the texts right after every jump.
+ *
+ * Without `options.clock` the subscription follows the global clock, including later `setDefaultClock` calls.
+ *
+ * @param {DateSource} source - The date to describe.
+ * @param {(text: string) => void} listener - Called with every new text.
+ * @param {RelativeTimeSubscriptionOptions} [options] - Same as {@link formatRelativeTime}, without `now`.
+ * @returns {VoidFunction} Unsubscribe function.
+ *
+ * @example
+ * // React
+ * useEffect(() => subscribeRelativeTime(comment.createdAt, setLabel, { locale }), [comment.createdAt, locale]);
+ */
+export function subscribeRelativeTime(
+  source: DateSource,
+  listener: (text: string) => void,
+  options: RelativeTimeSubscriptionOptions = {}
+): VoidFunction {
+  const date = parseValidDate(source);
+
+  if (!date) {
+    listener(options.returnEmptyInsteadOfNA ? "" : "N/A");
+    return () => { };
+  }
+
+  const clock = options.clock && typeof options.clock.now === "function" ? options.clock : undefined;
+  const now = resolveNow({ clock });
+  const time = date.getTime();
+
+  const subscription: IRelativeTimeSubscription = {
+    time,
+    clock,
+    options,
+    listener,
+    text: _format(time, now, options),
+    nextUpdateAt: now + _getNextUpdateDelay(time, now, options)
+  };
+
+  _listenToJumps(subscription, clock ?? getDefaultClock());
+
+  _subscriptions.add(subscription);
+  listener(subscription.text);
+  _schedule();
+
+  return () => {
+    subscription.unsubscribeClock?.();
+    _subscriptions.delete(subscription);
+    _schedule();
+  };
+}
+
+
+function _format(time: number, now: number, options: IRelativeTimeOptions): string {
+  const { locale = "en", numeric = "auto", style = "long", absoluteAfter, absoluteUnit = "date" } = options;
+  const diff = time - now;
+
+  if (typeof absoluteAfter === "number" && Math.abs(diff) >= absoluteAfter) {
+    return formatUTCDateToLocalDateString({ source: time, unit: absoluteUnit, locale });
+  }
+
+  const unit = _pickUnit(Math.abs(diff), options.thresholds);
+
+  try {
+    if (unit === "second") {
+      return new Intl.RelativeTimeFormat(locale, { numeric: "auto", style }).format(0, "second");
+    }
+
+    return new Intl.RelativeTimeFormat(locale, { numeric, style }).format(_round(diff / _unitMs[unit]), unit);
+  }
+  catch {
+    return formatUTCDateToLocalDateString({ source: time, unit: absoluteUnit });
+  }
+}
+
+
+function _pickUnit(distance: number, thresholds: IRelativeTimeOptions["thresholds"] = {}): RelativeTimeUnit {
+  const limits = { ..._defaultThresholds, ...thresholds };
+
+  return _unitOrder.find(unit => unit === "year" || Math.round(distance / _unitMs[unit]) < limits[unit]) ?? "year";
+}
+
+
+// Rounds half away from zero, so past and future values behave symmetrically
+function _round(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+
+/**
+ * Milliseconds until the formatted text may change.
+ * Candidates are the next rounding step of the current unit and every unit / absolute threshold.
+ */
+function _getNextUpdateDelay(time: number, now: number, options: RelativeTimeSubscriptionOptions): number {
+  const elapsed = now - time;  // grows over time
+  const limits = { ..._defaultThresholds, ...options.thresholds };
+  const unit = _pickUnit(Math.abs(elapsed), options.thresholds);
+  const unitMs = _unitMs[unit];
+
+  // Seconds are always shown as "now" → only the thresholds matter
+  const candidates: number[] = unit === "second" ? [] : [(Math.floor(elapsed / unitMs - 0.5) + 1.5) * unitMs];
+
+  _unitOrder.forEach(u => {
+    if (u !== "year") {
+      const limit = (limits[u] - 0.5) * _unitMs[u];
+      candidates.push(limit, -limit);
+    }
+  });
+
+  if (typeof options.absoluteAfter === "number") {
+    candidates.push(options.absoluteAfter, -options.absoluteAfter);
+  }
+
+  const next = Math.min(...candidates.filter(c => c > elapsed));
+  return Math.min(Math.max(Math.ceil(next - elapsed), SECOND_MS / 4), _MAX_TIMEOUT);
+}
+
+
+function _schedule(): void {
+  if (_timer !== null) {
+    clearTimeout(_timer);
+    _timer = null;
+  }
+
+  if (!_subscriptions.size) {
+    return;
+  }
+
+  // Each subscription may run on its own clock → compare delays, not moments
+  const delay = Math.min(...[..._subscriptions].map(s => s.nextUpdateAt - resolveNow({ clock: s.clock })));
+  _timer = setTimeout(_tick, Math.min(Math.max(delay, 0), _MAX_TIMEOUT));
+}
+
+
+function _tick(): void {
+  _subscriptions.forEach(subscription => {
+    const { time, clock, options, listener } = subscription;
+    const now = resolveNow({ clock });
+
+    // Fake clocks may also jump backwards → recompute when the text could differ
+    if (subscription.nextUpdateAt > now && _format(time, now, options) === subscription.text) {
+      return;
+    }
+
+    const text = _format(time, now, options);
+
+    subscription.nextUpdateAt = now + _getNextUpdateDelay(time, now, options);
+
+    if (text !== subscription.text) {
+      subscription.text = text;
+      listener(text);
+    }
+  });
+
+  _schedule();
+}
+
+
+// Moves the jump hooks of subscriptions that follow the global clock to the new one and refreshes their texts
+function _onDefaultClockChange(): void {
+  const clock = getDefaultClock();
+
+  _subscriptions.forEach(subscription => {
+    if (!subscription.clock) {
+      subscription.unsubscribeClock?.();
+      _listenToJumps(subscription, clock);
+      subscription.nextUpdateAt = -Infinity;
+    }
+  });
+
+  _tick();
+}
+
+
+// Every subscription registers its own listener: clocks keep listeners in a Set, so a shared `_tick`
+// would be registered once and removed for everyone by the first unsubscribe
+function _listenToJumps(subscription: IRelativeTimeSubscription, clock: IClock): void {
+  subscription.unsubscribeClock = clock.subscribe?.(() => _tick());
+}
@@ -0,0 +1,314 @@
+import { IPeriodBoundaries } from "./dateTimePeriodParser";
+import { DateSource, parseValidDate } from "./timeFormatters";
+import { addZonedDays, addZonedMonths, getZonedParts, resolveTimeZone, startOfZonedDay, zonedPartsToTimestamp } from "./zonedCalendar";
+
+
+/**
+ * Size of a time bucket. `"week"` is an ISO week (Monday to Monday).
+ */
+export type TimeBucketUnit = "minute" | "hour" | "day" | "week" | "month";
+
+
+/**
+ * How the values in one bucket are combined by {@link bucketRecords}.
+ */
+export type BucketAggregate = "sum" | "count" | "avg" | "min" | "max";
+
+
+/**
+ * Options for {@link createTimeBuckets}.
+ *
+ * @property timeZone - IANA time zone used to align buckets to calendar boundaries. Default: the local time zone.
+ * @property step - Number of units per bucket (e.g. `15` with `"minute"`, `3` with `"month"` for quarters). Default: `1`.
+ * @property clip - Clip the first and last bucket to the period boundaries. Default: `false` (full buckets).
+ */
+export interface ITimeBucketOptions {
+  timeZone?: string;
+  step?: number;
+  clip?: boolean;
+}
+
+
+/**
+ * Options for {@link bucketRecords}.
+ *
+ * @property getTimestamp - Reads the record's date.
+ * @property getValue - Reads the record's numeric value. Default: `1` for every record (counting).
+ * @property aggregate - How values in one bucket are combined. Default: `"sum"`.
+ * @property fill - Value of buckets without records. Default: `0`.
+ */
+export interface IBucketRecordsOptions<T> {
+  getTimestamp: (record: T) => DateSource;
+  getValue?: (record: T) => number;
+  aggregate?: BucketAggregate;
+  fill?: 0 | null;
+}
+
+
+/**
+ * A bucket with its aggregated value.
+ *
+ * @property count - Number of records that fell into the bucket.
+ */
+export interface ITimeBucketValue extends IPeriodBoundaries {
+  value: number | null;
+  count: number;
+}
+
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const _LONGEST_DAY_MS = 25 * HOUR_MS;
+
+// Safety limit, e.g. for "All Time" split into minutes
+const _MAX_BUCKETS = 10_000;
+
+
+
+/**
+ * Splits a period into evenly spaced, calendar-aligned buckets for chart series.
+ *
+ * - Every bucket is `[start, end)` — `start` is inclusive, `end` is exclusive,
+ *   and each bucket's `end` equals the next bucket's `start`.
+ * - Buckets are aligned to calendar boundaries in `timeZone`: whole minutes, whole hours,
+ *   midnights, Mondays or the 1st of the month. Hour, day, week and month buckets follow the wall clock,
+ *   so the bucket across a DST change is an hour shorter or longer (e.g. a 23-hour day).
+ * - The first bucket contains `boundaries.start`, the last one contains the last moment before `boundaries.end`.
+ *   Without `clip`, they may start before / end after the period.
+ * - At most 10 000 buckets are returned. Longer periods keep the **most recent** 10 000 buckets,
+ *   so the first bucket then starts after `boundaries.start`.
+ *
+ * @param {IPeriodBoundaries} boundaries - Period in milliseconds (e.g. from `calculatePeriodBoundaries`).
+ * @param {TimeBucketUnit} unit - Bucket size.
+ * @param {ITimeBucketOptions} [options] - Time zone, step and clipping.
+ * @returns {IPeriodBoundaries[]} Buckets in chronological order (empty for invalid boundaries).
+ *
+ * @example
+ * const period = calculatePeriodBoundaries(PeriodLengthInDays.ThisMonth, { timeZone: "Europe/Sofia" });
+ * createTimeBuckets(period, "day", { timeZone: "Europe/Sofia" });
+ * // [{ start: <Mar 1 00:00>, end: <Mar 2 00:00> }, { start: <Mar 2 00:00>, ... }, ...]
+ *
+ * @example
+ * createTimeBuckets(period, "minute", { step: 15 }); // quarter-hour buckets
+ */
+export function createTimeBuckets(boundaries: IPeriodBoundaries, unit: TimeBucketUnit, options: ITimeBucketOptions = {}): IPeriodBoundaries[] {
+  const { start, end } = boundaries ?? {};
+
+  if (!Number.isFinite(start) || !Number.isFinite(end) || start >= end) {
+    return [];
+  }
+
+  const timeZone = resolveTimeZone(options.timeZone);
+  const step = Number.isInteger(options.step) && options.step! > 0 ? options.step! : 1;
+  const buckets: IPeriodBoundaries[] = [];
+
+  let bucketStart = _alignToUnit(start, unit, step, timeZone);
+
+  // Skip what can't fit in the last _MAX_BUCKETS buckets instead of walking through it
+  const skip = end - bucketStart - _MAX_BUCKETS * _longestBucketMs(unit, step);
+
+  if (skip > 0) {
+    bucketStart = _skipAhead(bucketStart, unit, step, skip, timeZone);
+  }
+
+  while (bucketStart < end) {
+    const bucketEnd = _addUnits(bucketStart, unit, step, timeZone);
+
+    buckets.push({ start: bucketStart, end: bucketEnd });
+    bucketStart = bucketEnd;
+  }
+
+  if (buckets.length > _MAX_BUCKETS) {
+    buckets.splice(0, buckets.length - _MAX_BUCKETS);
+  }
+
+  if (options.clip && buckets.length) {
+    buckets[0].start = Math.max(buckets[0].start, start);
+    buckets[buckets.length - 1].end = Math.min(buckets[buckets.length - 1].end, end);
+  }
+
+  return buckets;
+}
+
+
+
+/**
+ * Assigns timestamped records to buckets and aggregates their values.
+ *
+ * Records with invalid dates or outside all buckets are ignored.
+ * Empty buckets get the `fill` value (`0` or `null`), so charts never miss a point.
+ *
+ * @template T - Record type.
+ * @param {T[]} records - Records to group.
+ * @param {IPeriodBoundaries[]} buckets - Buckets from {@link createTimeBuckets}.
+ * @param {IBucketRecordsOptions<T>} options - Timestamp/value readers, aggregation and fill value.
+ * @returns {ITimeBucketValue[]} One entry per bucket, in the same order.
+ *
+ * @example
+ * const buckets = createTimeBuckets(period, "hour", { timeZone });
+ * const series = bucketRecords(orders, buckets, {
+ *   getTimestamp: o => o.createdAt,
+ *   getValue: o => o.total,
+ *   aggregate: "sum"
+ * });
+ * // [{ start, end, value: 120.5, count: 3 }, { start, end, value: 0, count: 0 }, ...]
+ */
+export function bucketRecords<T>(records: T[], buckets: IPeriodBoundaries[], options: IBucketRecordsOptions<T>): ITimeBucketValue[] {
+  const { getTimestamp, getValue = () => 1, aggregate = "sum", fill = 0 } = options;
+  const groups: number[][] = buckets.map(() => []);
+
+  (Array.isArray(records) ? records : []).forEach(record => {
+    const timestamp = parseValidDate(getTimestamp(record))?.getTime();
+
+    if (timestamp === undefined) {
+      return;
+    }
+
+    const index = _findBucketIndex(buckets, timestamp);
+    const value = getValue(record);
+
+    if (index >= 0 && Number.isFinite(value)) {
+      groups[index].push(value);
+    }
+  });
+
+  return buckets.map(({ start, end }, i) => {
+    const values = groups[i];
+
+    return {
+      start,
+      end,
+      count: values.length,
+      value: values.length ? _aggregate(values, aggregate) : fill
+    };
+  });
+}
+
+
+
+/**
+ * Shortcut for {@link createTimeBuckets} + {@link bucketRecords}.
+ *
+ * @example
+ * createTimeSeries(visits, period, "day", { timeZone: "Europe/Sofia", getTimestamp: v => v.date });
+ */
+export function createTimeSeries<T>(
+  records: T[],
+  boundaries: IPeriodBoundaries,
+  unit: TimeBucketUnit,
+  options: ITimeBucketOptions & IBucketRecordsOptions<T>
+): ITimeBucketValue[] {
+  return bucketRecords(records, createTimeBuckets(boundaries, unit, options), options);
+}
+
+
+function _alignToUnit(timestamp: number, unit: TimeBucketUnit, step: number, timeZone?: string): number {
+  const p = getZonedParts(timestamp, timeZone);
+
+  switch (unit) {
+    case "minute":
+      return zonedPartsToTimestamp({ ...p, minute: p.minute - (p.minute % step), second: 0, millisecond: 0 }, timeZone);
+
+    case "hour":
+      return zonedPartsToTimestamp({ ...p, hour: p.hour - (p.hour % step), minute: 0, second: 0, millisecond: 0 }, timeZone);
+
+    case "day":
+      return startOfZonedDay(timestamp, timeZone);
+
+    case "week":
+      return addZonedDays(startOfZonedDay(timestamp, timeZone), -((p.weekday + 6) % 7), timeZone);
+
+    case "month":
+      return zonedPartsToTimestamp({ year: p.year, month: p.month - ((p.month - 1) % step), day: 1 }, timeZone);
+  }
+}
+
+
+// Minutes are fixed lengths; hours, days, weeks and months follow the wall clock of the time zone
+function _addUnits(timestamp: number, unit: TimeBucketUnit, step: number, timeZone?: string): number {
+  switch (unit) {
+    case "minute": return timestamp + step * MINUTE_MS;
+    case "hour": return _addZonedHours(timestamp, step, timeZone);
+    case "day": return startOfZonedDay(addZonedDays(timestamp, step, timeZone), timeZone);
+    case "week": return startOfZonedDay(addZonedDays(timestamp, step * 7, timeZone), timeZone);
+    case "month": return addZonedMonths(timestamp, step, timeZone);
+  }
+}
+
+
+// Upper bound of one bucket's length, counting 25-hour days around DST changes
+function _longestBucketMs(unit: TimeBucketUnit, step: number): number {
+  switch (unit) {
+    case "minute": return step * MINUTE_MS;
+    case "hour": return (Math.min(step, 24) + 1) * HOUR_MS;
+    case "day": return step * _LONGEST_DAY_MS;
+    case "week": return step * 7 * _LONGEST_DAY_MS;
+    case "month": return step * 31 * _LONGEST_DAY_MS;
+  }
+}
+
+
+// Moves a bucket start forward by at most `ms`, staying on the same bucket grid as _addUnits
+function _skipAhead(timestamp: number, unit: TimeBucketUnit, step: number, ms: number, timeZone?: string): number {
+  switch (unit) {
+    case "minute":
+      return timestamp + Math.floor(ms / (step * MINUTE_MS)) * step * MINUTE_MS;
+
+    case "day":
+    case "week": {
+      // Day and week grids count from the first bucket → skip whole buckets
+      const days = unit === "day" ? step : step * 7;
+      return startOfZonedDay(addZonedDays(timestamp, Math.floor(ms / (days * _LONGEST_DAY_MS)) * days, timeZone), timeZone);
+    }
+
+    default:
+      // Hour and month grids are fixed to the calendar → align the target moment
+      return _alignToUnit(timestamp + ms, unit, step, timeZone);
+  }
+}
+
+
+// Keeps buckets on the daily wall-clock grid of `step` hours (like _alignToUnit) across DST changes,
+// so the bucket around a change is an hour shorter or longer
+function _addZonedHours(timestamp: number, hours: number, timeZone?: string): number {
+  const p = getZonedParts(timestamp, timeZone);
+  const next = zonedPartsToTimestamp({ ...p, hour: Math.min(p.hour - (p.hour % hours) + hours, 24), minute: 0, second: 0, millisecond: 0 }, timeZone);
+
+  // A fall-back can map the next wall-clock hour onto an earlier moment — never step backwards
+  return next > timestamp ? next : timestamp + hours * HOUR_MS;
+}
+
+
+function _findBucketIndex(buckets: IPeriodBoundaries[], timestamp: number): number {
+  let low = 0;
+  let high = buckets.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const { start, end } = buckets[mid];
+
+    if (timestamp < start) {
+      high = mid - 1;
+    }
+    else if (timestamp >= end) {
+      low = mid + 1;
+    }
+    else {
+      return mid;
+    }
+  }
+
+  return -1;
+}
+
+
+function _aggregate(values: number[], aggregate: BucketAggregate): number {
+  switch (aggregate) {
+    case "count": return values.length;
+    case "avg": return values.reduce((a, b) => a + b, 0) / values.length;
+    // No spread: Math.min(...values) overflows the call stack for large buckets
+    case "min": return values.reduce((a, b) => (b < a ? b : a));
+    case "max": return values.reduce((a, b) => (b > a ? b : a));
+    default: return values.reduce((a, b) => a + b, 0);
+  }
+}
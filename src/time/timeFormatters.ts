@@ -1,5 +1,8 @@
+import { formatDatePattern } from "./datePatterns";
+
+
 export type DateSource = Date | string | number | null;
-type DateFormatUnit = "fullDateTime" | "date" | "year" | "yearMonth" | "monthDay" | "hoursMinutesSeconds" | "camStyle";
+export type DateFormatUnit = "fullDateTime" | "date" | "year" | "yearMonth" | "monthDay" | "hoursMinutesSeconds" | "camStyle";
 
 
 
@@ -30,7 +33,8 @@ export function parseValidDate(value: DateSource): Date | null {
 
 interface IFormatUtcDateProps {
   source: DateSource;
-  unit: DateFormatUnit;
+  unit?: DateFormatUnit;
+  pattern?: string;
   locale?: string;
   noSeconds?: boolean;
   returnEmptyInsteadOfNA?: boolean;
@@ -49,18 +53,24 @@ interface IFormatUtcDateProps {
  *    - `"yearMonth"` → full month name and year: **February 2026**
  *    - `"monthDay"` → full month name and day only: **February 25**
  *    - `"hoursMinutesSeconds"` → time only: **16:32:10**
- *    - `"camStyle"` → Styles for cameras: **25-02-2026 16:24:39**
+ *    - `"camStyle"` → Styles for cameras: **25-02-2026 16:24:39** (same as pattern `"DD-MM-YYYY HH:mm:ss"`)
+ * @param pattern - Optional token pattern (e.g. `"DD-MM-YYYY HH:mm:ss"`, `"ddd, MMM D"`). Takes precedence over `unit`.
+ *    See `formatDatePattern` for the supported tokens.
  * @param locale - The target locale (e.g. `"en-US"`, `"bg-BG"`). Determines language and formatting rules.
  * @param noSeconds - Optional flag to omit seconds in time-based formats.
  * @param returnEmptyInsteadOfNA - Optional flag. If `true`, returns an empty string `""` instead of `"N/A"` when the source is invalid or null.
  * @returns {string} - The formatted local date/time string. Returns `"N/A"` if the source is invalid or null.
  */
-export function formatUTCDateToLocalDateString({ source, unit, locale = "en", noSeconds, returnEmptyInsteadOfNA }: IFormatUtcDateProps): string {
+export function formatUTCDateToLocalDateString({ source, unit, pattern, locale = "en", noSeconds, returnEmptyInsteadOfNA }: IFormatUtcDateProps): string {
   const date = parseValidDate(source);
   if (!date) {
     return returnEmptyInsteadOfNA ? "" : "N/A";
   }
 
+  if (typeof pattern === "string") {
+    return formatDatePattern(date, pattern, { locale }) ?? "N/A";
+  }
+
   let dateLocaleOptions: Intl.DateTimeFormatOptions;
 
   switch (unit) {
@@ -103,17 +113,8 @@ export function formatUTCDateToLocalDateString({ source, unit, locale = "en", no
       };
       break;
 
-    case "camStyle": {
-      const day = String(date.getDate()).padStart(2, "0");
-      const month = String(date.getMonth() + 1).padStart(2, "0"); // месеците са 0-based month
-      const year = date.getFullYear();
-
-      const hours = String(date.getHours()).padStart(2, "0");
-      const minutes = String(date.getMinutes()).padStart(2, "0");
-      const seconds = String(date.getSeconds()).padStart(2, "0");
-
-      return `${day}-${month}-${year} ${hours}:${minutes}:${seconds}`;
-    }
+    case "camStyle":
+      return formatDatePattern(date, "DD-MM-YYYY HH:mm:ss") ?? "N/A";
 
     default:  // fallback to long date
       dateLocaleOptions = { year: "numeric", month: "long", day: "numeric" };
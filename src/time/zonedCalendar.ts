@@ -0,0 +1,243 @@
+/**
+ * Internal calendar helpers that work with wall-clock time in an arbitrary IANA time zone.
+ *
+ * All helpers receive and return UNIX timestamps in milliseconds.
+ * When `timeZone` is `undefined`, the runtime's local time zone is used.
+ */
+
+
+/**
+ * Wall-clock representation of a moment in a specific time zone.
+ *
+ * @property month - 1-based month (1 = January).
+ * @property weekday - 0-based day of the week (0 = Sunday).
+ */
+export interface IZonedDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  weekday: number;
+}
+
+
+/**
+ * Wall-clock input for {@link zonedPartsToTimestamp}.
+ * Out-of-range values overflow naturally (e.g. `day: 0` → last day of the previous month).
+ */
+export type ZonedDateInput = Pick<IZonedDateParts, "year" | "month" | "day">
+  & Partial<Pick<IZonedDateParts, "hour" | "minute" | "second" | "millisecond">>;
+
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+
+// Intl formatters are expensive to create — keep one per time zone
+const _formatterCache = new Map<string, Intl.DateTimeFormat>();
+const _LOCAL_ZONE_KEY = "__local__";
+
+
+
+function _getFormatter(timeZone?: string): Intl.DateTimeFormat {
+  const key = timeZone ?? _LOCAL_ZONE_KEY;
+  let formatter = _formatterCache.get(key);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric"
+    });
+
+    _formatterCache.set(key, formatter);
+  }
+
+  return formatter;
+}
+
+
+
+/**
+ * Validates an IANA time zone name.
+ *
+ * @param timeZone - Time zone name (e.g. `"Europe/Sofia"`).
+ * @returns The same name if supported by the runtime, otherwise `undefined` (local time zone).
+ */
+export function resolveTimeZone(timeZone?: string | null): string | undefined {
+  if (typeof timeZone !== "string" || !timeZone.trim()) {
+    return undefined;
+  }
+
+  try {
+    _getFormatter(timeZone.trim());
+    return timeZone.trim();
+  }
+  catch {
+    return undefined;
+  }
+}
+
+
+
+/**
+ * Splits a timestamp into wall-clock parts as seen in the given time zone.
+ */
+export function getZonedParts(timestamp: number, timeZone?: string): IZonedDateParts {
+  const parts: Record<string, number> = {};
+
+  _getFormatter(timeZone)
+    .formatToParts(timestamp)
+    .forEach(({ type, value }) => {
+      if (type !== "literal") {
+        parts[type] = Number(value);
+      }
+    });
+
+  const millisecond = ((timestamp % 1000) + 1000) % 1000;
+  const weekday = new Date(Date.UTC(parts.year, parts.month - 1, parts.day)).getUTCDay();
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond,
+    weekday
+  };
+}
+
+
+
+/**
+ * Returns the UTC offset (in milliseconds) of the time zone at the given moment.
+ * Positive values are east of Greenwich (e.g. `+10800000` for Sofia in summer).
+ */
+export function getZoneOffset(timestamp: number, timeZone?: string): number {
+  const p = getZonedParts(timestamp, timeZone);
+  const wallAsUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second, p.millisecond);
+
+  return wallAsUtc - timestamp;
+}
+
+
+
+/**
+ * Converts wall-clock parts in the given time zone to a UNIX timestamp.
+ *
+ * Disambiguation follows the native `Date` behaviour:
+ * - Times skipped by a DST jump (gap) resolve to the moment right after the jump.
+ * - Times repeated by a DST fall-back (fold) resolve to the earlier occurrence.
+ */
+export function zonedPartsToTimestamp(input: ZonedDateInput, timeZone?: string): number {
+  const { year, month, day, hour = 0, minute = 0, second = 0, millisecond = 0 } = input;
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+
+  const offsetBefore = getZoneOffset(wallAsUtc - DAY_MS, timeZone);
+  const offsetAfter = getZoneOffset(wallAsUtc + DAY_MS, timeZone);
+
+  if (offsetBefore === offsetAfter) {
+    return wallAsUtc - offsetBefore;
+  }
+
+  const candidateBefore = wallAsUtc - offsetBefore;
+  const candidateAfter = wallAsUtc - offsetAfter;
+  const isBeforeValid = getZoneOffset(candidateBefore, timeZone) === offsetBefore;
+  const isAfterValid = getZoneOffset(candidateAfter, timeZone) === offsetAfter;
+
+  if (isBeforeValid && isAfterValid) {
+    return Math.min(candidateBefore, candidateAfter);  // Fold → earlier occurrence
+  }
+
+  if (isAfterValid) {
+    return candidateAfter;
+  }
+
+  return candidateBefore;  // Valid, or a gap → lands right after the jump
+}
+
+
+
+/**
+ * Returns the timestamp of the calendar midnight (00:00) of the day containing `timestamp`.
+ */
+export function startOfZonedDay(timestamp: number, timeZone?: string): number {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+  return zonedPartsToTimestamp({ year, month, day }, timeZone);
+}
+
+
+
+/**
+ * Moves a timestamp by whole calendar days, keeping its wall-clock time.
+ * A day across a DST change is therefore 23 or 25 hours long.
+ */
+export function addZonedDays(timestamp: number, days: number, timeZone?: string): number {
+  const p = getZonedParts(timestamp, timeZone);
+
+  return zonedPartsToTimestamp({ ...p, day: p.day + days }, timeZone);
+}
+
+
+
+/**
+ * Returns the number of days in a month.
+ *
+ * @param year - Full year (e.g. 2024).
+ * @param month - 1-based month. Out-of-range values overflow into neighbouring years.
+ */
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+
+
+/**
+ * Moves a timestamp by whole calendar months, keeping its wall-clock time.
+ * When the target month is shorter, the day is clamped to its last day
+ * (e.g. Mar 31 − 1 month → Feb 28/29).
+ */
+export function addZonedMonths(timestamp: number, months: number, timeZone?: string): number {
+  const p = getZonedParts(timestamp, timeZone);
+  const target = new Date(Date.UTC(p.year, p.month - 1 + months, 1));
+  const year = target.getUTCFullYear();
+  const month = target.getUTCMonth() + 1;
+  const day = Math.min(p.day, getDaysInMonth(year, month));
+
+  return zonedPartsToTimestamp({ ...p, year, month, day }, timeZone);
+}
+
+
+
+/**
+ * Converts a calendar date to a day number (days since 1970-01-01).
+ * Makes calendar day arithmetic independent of time zones and DST.
+ */
+export function toDayNumber(year: number, month: number, day: number): number {
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+
+
+/**
+ * Converts a day number from {@link toDayNumber} back to a calendar date.
+ */
+export function fromDayNumber(dayNumber: number): Pick<IZonedDateParts, "year" | "month" | "day" | "weekday"> {
+  const date = new Date(dayNumber * DAY_MS);
+
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    weekday: date.getUTCDay()
+  };
+}